@@ -0,0 +1,78 @@
+import * as os from 'os';
+import { Request, Response } from 'express';
+import { requestApiKey } from './auth';
+import { appendAuditEntry } from './database';
+import { AuditAction, AuditActor, AuditEntry, DownloadLink } from './types';
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'export.trigger',
+  'export.resume',
+  'sync.trigger',
+  'file.generate',
+  'file.download',
+  'file.delete',
+  'customers.stream',
+  'subject.export',
+  'subject.erase',
+  'link.create',
+  'link.revoke',
+];
+
+/**
+ * The API key and client address behind a request that passed requireApiKey
+ */
+export function apiActor(req: Request, res: Response): AuditActor {
+  const apiKey = requestApiKey(res);
+  return { type: 'api_key', name: apiKey.name, apiKeyId: apiKey.id, clientIp: req.ip || null };
+}
+
+/**
+ * The OS user running the CLI, as user@host
+ */
+export function cliActor(): AuditActor {
+  let username: string;
+  try {
+    username = os.userInfo().username;
+  } catch {
+    username = process.env.USER || process.env.USERNAME || 'unknown'; // No passwd entry, e.g. in some containers
+  }
+  return { type: 'os_user', name: `${username}@${os.hostname()}` };
+}
+
+/**
+ * Whoever downloads through a link, known only by the link and their address
+ */
+export function downloadLinkActor(req: Request, link: DownloadLink): AuditActor {
+  const name = link.label ? `link #${link.id} (${link.label})` : `link #${link.id}`;
+  return { type: 'download_link', name, clientIp: req.ip || null };
+}
+
+export function systemActor(name: string): AuditActor {
+  return { type: 'system', name };
+}
+
+export type AuditRecord = {
+  storeName: string;
+  jobId?: string | null;
+  filePath?: string | null;
+  details?: Record<string, unknown>;
+};
+
+/**
+ * Appends an entry to the audit log. Options left undefined are dropped from details.
+ */
+export function recordAudit(actor: AuditActor, action: AuditAction, record: AuditRecord): AuditEntry {
+  const details = Object.fromEntries(Object.entries(record.details || {}).filter(([, value]) => value !== undefined));
+  return appendAuditEntry({
+    at: new Date().toISOString(),
+    action,
+    actorType: actor.type,
+    actor: actor.name,
+    apiKeyId: actor.apiKeyId ?? null,
+    clientIp: actor.clientIp ?? null,
+    storeName: record.storeName,
+    jobId: record.jobId ?? null,
+    filePath: record.filePath ?? null,
+    details,
+  });
+}
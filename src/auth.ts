@@ -0,0 +1,138 @@
+import * as crypto from 'crypto';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { storeConfigs } from './shopify-client';
+import { createApiKey, getActiveApiKeyByHash, getExportJob, markApiKeyUsed } from './database';
+import { ApiKey, ApiKeyScope } from './types';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['status:read', 'export:trigger', 'data:download', 'admin'];
+
+const KEY_PREFIX = 'cex_';
+// Shown in listings; long enough to tell keys apart, too short to be useful
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 8;
+// last_used_at is only rewritten once this much time has passed, not on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Keys are random 256-bit values, so a plain SHA-256 is enough to store them
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+export type ApiKeyRequest = {
+  name?: string;
+  scopes?: string[];
+  storeNames?: string[] | null;
+};
+
+/**
+ * Creates a key and returns it along with its record. The key itself isn't
+ * stored, so this is the only time it can be shown. Throws on invalid input.
+ */
+export function issueApiKey(request: ApiKeyRequest): { apiKey: ApiKey; key: string } {
+  if (!request.name) {
+    throw new Error('name is required');
+  }
+
+  const scopes = validateScopes(request.scopes || []);
+  const storeNames = request.storeNames?.length ? validateStoreNames(request.storeNames) : null;
+  if (storeNames && scopes.includes('admin')) {
+    throw new Error('admin keys cannot be restricted to stores');
+  }
+
+  const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  const apiKey = createApiKey({
+    name: request.name,
+    keyHash: hashApiKey(key),
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    scopes,
+    storeNames,
+  });
+  return { apiKey, key };
+}
+
+export function hasScope(apiKey: ApiKey, scope: ApiKeyScope): boolean {
+  return apiKey.scopes.includes('admin') || apiKey.scopes.includes(scope);
+}
+
+export function canAccessStore(apiKey: ApiKey, storeName: string): boolean {
+  return apiKey.storeNames === null || apiKey.storeNames.includes(storeName);
+}
+
+// Which store a request touches: a name, null when none, undefined when it doesn't exist (the route answers 404)
+export type StoreResolver = (req: Request) => string | null | undefined;
+
+export const storeFromParams: StoreResolver = (req) => req.params.storeName ?? null;
+export const storeOfJob: StoreResolver = (req) => getExportJob(req.params.jobId)?.storeName;
+
+/**
+ * Middleware accepting requests with an unrevoked API key that has the scope
+ * and may access the store the request touches. Answers 401 without a valid
+ * key and 403 when the key isn't allowed. The key is left in res.locals.apiKey.
+ */
+export function requireApiKey(scope: ApiKeyScope, resolveStore: StoreResolver = storeFromParams): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = readApiKey(req);
+    if (!key) {
+      return unauthorized(res, 'Missing API key. Send it as "Authorization: Bearer <key>" or in X-API-Key');
+    }
+
+    const apiKey = getActiveApiKeyByHash(hashApiKey(key));
+    if (!apiKey) {
+      return unauthorized(res, 'Invalid or revoked API key');
+    }
+
+    if (!hasScope(apiKey, scope)) {
+      return res.status(403).json({ error: 'Forbidden', message: `API key lacks the ${scope} scope` });
+    }
+
+    const storeName = resolveStore(req);
+    if (storeName && !canAccessStore(apiKey, storeName)) {
+      return res.status(403).json({ error: 'Forbidden', message: `API key has no access to ${storeName}` });
+    }
+
+    const now = new Date();
+    if (!apiKey.lastUsedAt || now.getTime() - Date.parse(apiKey.lastUsedAt) >= LAST_USED_RESOLUTION_MS) {
+      markApiKeyUsed(apiKey.id, now.toISOString());
+    }
+
+    res.locals.apiKey = apiKey;
+    next();
+  };
+}
+
+/**
+ * The key a requireApiKey middleware accepted for this request
+ */
+export function requestApiKey(res: Response): ApiKey {
+  return res.locals.apiKey as ApiKey;
+}
+
+function readApiKey(req: Request): string | null {
+  const authorization = req.get('authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null;
+  }
+  return req.get('x-api-key') || null;
+}
+
+function unauthorized(res: Response, message: string) {
+  res.status(401).set('WWW-Authenticate', 'Bearer').json({ error: 'Unauthorized', message });
+}
+
+function validateScopes(scopes: string[]): ApiKeyScope[] {
+  if (!Array.isArray(scopes) || scopes.length === 0) {
+    throw new Error(`scopes must list at least one of: ${API_KEY_SCOPES.join(', ')}`);
+  }
+  const unknown = scopes.filter((scope) => !API_KEY_SCOPES.includes(scope as ApiKeyScope));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown scopes: ${unknown.join(', ')}. Available scopes: ${API_KEY_SCOPES.join(', ')}`);
+  }
+  return [...new Set(scopes)] as ApiKeyScope[];
+}
+
+function validateStoreNames(storeNames: string[]): string[] {
+  const unknown = storeNames.filter((storeName) => !(storeName in storeConfigs));
+  if (unknown.length > 0) {
+    throw new Error(`Invalid store names: ${unknown.join(', ')}. Available stores: ${Object.keys(storeConfigs).join(', ')}`);
+  }
+  return [...new Set(storeNames)];
+}
@@ -0,0 +1,301 @@
+import * as readline from 'readline';
+import { Readable } from 'stream';
+import { AdminApiClient } from '@shopify/admin-api-client';
+import { throwIfGraphQLErrors } from './shopify-client';
+import { buildBulkCustomersQuery } from './customer-query';
+import { updateExportJob } from './database';
+import { ThrottleStats, throttledRequest } from './throttle';
+import { CustomerData, CustomerOrder } from './types';
+
+const BULK_POLL_INTERVAL_MS = parseInt(process.env.BULK_POLL_INTERVAL_MS || '') || 5000;
+const CUSTOMERS_PER_BATCH = 250;
+
+// Bulk operations return every nested node; trim them to what the paginated query asks for
+const MAX_EVENTS = 5;
+const MAX_ORDERS = 5;
+const MAX_ORDER_CHILDREN = 20;
+
+const RUN_BULK_QUERY_MUTATION = `
+  mutation runBulkCustomerQuery($query: String!) {
+    bulkOperationRunQuery(query: $query) {
+      bulkOperation {
+        id
+        status
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const CANCEL_BULK_OPERATION_MUTATION = `
+  mutation cancelBulkOperation($id: ID!) {
+    bulkOperationCancel(id: $id) {
+      bulkOperation {
+        id
+        status
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const BULK_OPERATION_STATUS_QUERY = `
+  query bulkOperationStatus($id: ID!) {
+    node(id: $id) {
+      ... on BulkOperation {
+        id
+        status
+        errorCode
+        objectCount
+        url
+        partialDataUrl
+      }
+    }
+  }
+`;
+
+type BulkOperation = {
+  id: string;
+  status: string;
+  errorCode: string | null;
+  objectCount: string;
+  url: string | null;
+  partialDataUrl: string | null;
+};
+
+/**
+ * Runs the customer query as a Shopify bulk operation, waits for it to finish
+ * and streams the resulting JSONL file into saveBatch. When shouldStop returns
+ * true while Shopify is still running the operation, it's cancelled there too.
+ */
+export async function fetchCustomersWithBulkOperation(
+  shopify: AdminApiClient,
+  jobId: string,
+  searchQuery: string | null,
+  throttleStats: ThrottleStats,
+  saveBatch: (customers: CustomerData[]) => void,
+  shouldStop: () => boolean
+): Promise<void> {
+  const operationId = await startBulkOperation(shopify, searchQuery, throttleStats);
+  updateExportJob(jobId, { bulkOperationId: operationId, bulkOperationStatus: 'CREATED' });
+  console.log(`Bulk operation submitted: ${operationId}`);
+
+  const operation = await waitForBulkOperation(shopify, jobId, operationId, throttleStats, shouldStop);
+  if (!operation) {
+    await cancelBulkOperation(shopify, jobId, operationId, throttleStats);
+    return;
+  }
+
+  // Shopify returns no file when the query matched nothing
+  if (!operation.url) {
+    console.log(`Bulk operation ${operationId} completed without results`);
+    return;
+  }
+
+  await streamBulkOperationResults(operation.url, saveBatch, shouldStop);
+}
+
+async function startBulkOperation(
+  shopify: AdminApiClient,
+  searchQuery: string | null,
+  throttleStats: ThrottleStats
+): Promise<string> {
+  const response = await throttledRequest(
+    shopify,
+    RUN_BULK_QUERY_MUTATION,
+    { query: buildBulkCustomersQuery(searchQuery) },
+    throttleStats
+  );
+
+  throwIfGraphQLErrors(response);
+
+  const result = response.data?.bulkOperationRunQuery;
+  if (result?.userErrors?.length > 0) {
+    throw new Error(`Bulk operation rejected: ${JSON.stringify(result.userErrors)}`);
+  }
+  if (!result?.bulkOperation?.id) {
+    console.error(`Invalid response structure:`, JSON.stringify(response, null, 2));
+    throw new Error(`Invalid response from Shopify API`);
+  }
+
+  return result.bulkOperation.id;
+}
+
+/**
+ * Polls until the operation completes. Returns null if shouldStop asked to
+ * stop waiting first.
+ */
+async function waitForBulkOperation(
+  shopify: AdminApiClient,
+  jobId: string,
+  operationId: string,
+  throttleStats: ThrottleStats,
+  shouldStop: () => boolean
+): Promise<BulkOperation | null> {
+  while (true) {
+    await new Promise((resolve) => setTimeout(resolve, BULK_POLL_INTERVAL_MS));
+    if (shouldStop()) return null;
+
+    const response = await throttledRequest(
+      shopify,
+      BULK_OPERATION_STATUS_QUERY,
+      { id: operationId },
+      throttleStats
+    );
+
+    throwIfGraphQLErrors(response);
+
+    const operation = response.data?.node as BulkOperation | null;
+    if (!operation) {
+      throw new Error(`Bulk operation not found: ${operationId}`);
+    }
+
+    updateExportJob(jobId, {
+      bulkOperationStatus: operation.status,
+      bulkObjectCount: Number(operation.objectCount) || 0,
+    });
+
+    console.log(`Bulk operation ${operation.status}: ${operation.objectCount} objects`);
+
+    if (operation.status === 'COMPLETED') {
+      return operation;
+    }
+    if (['FAILED', 'CANCELED', 'EXPIRED'].includes(operation.status)) {
+      const reason = operation.errorCode ? ` (${operation.errorCode})` : '';
+      throw new Error(`Bulk operation ${operation.status.toLowerCase()}${reason}`);
+    }
+  }
+}
+
+async function cancelBulkOperation(
+  shopify: AdminApiClient,
+  jobId: string,
+  operationId: string,
+  throttleStats: ThrottleStats
+) {
+  const response = await throttledRequest(
+    shopify,
+    CANCEL_BULK_OPERATION_MUTATION,
+    { id: operationId },
+    throttleStats
+  );
+
+  throwIfGraphQLErrors(response);
+
+  // Shopify refuses once the operation has already finished, which is fine when stopping
+  const result = response.data?.bulkOperationCancel;
+  if (result?.userErrors?.length > 0) {
+    console.warn(`Bulk operation ${operationId} could not be cancelled: ${JSON.stringify(result.userErrors)}`);
+    return;
+  }
+
+  updateExportJob(jobId, { bulkOperationStatus: result?.bulkOperation?.status || 'CANCELING' });
+  console.log(`Bulk operation ${operationId} cancelled`);
+}
+
+/**
+ * Downloads the JSONL result and rebuilds CustomerData records from it.
+ *
+ * Nested connections are flattened into separate lines carrying a __parentId,
+ * and always follow their parent line, so a customer is complete as soon as
+ * the next top-level line appears.
+ */
+async function streamBulkOperationResults(
+  url: string,
+  saveBatch: (customers: CustomerData[]) => void,
+  shouldStop: () => boolean
+): Promise<void> {
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to download bulk operation results: HTTP ${response.status}`);
+  }
+
+  const lines = readline.createInterface({
+    input: Readable.fromWeb(response.body as import('stream/web').ReadableStream),
+    crlfDelay: Infinity,
+  });
+
+  let batch: CustomerData[] = [];
+  let current: CustomerData | null = null;
+  let stopped = false;
+  const ordersById = new Map<string, CustomerOrder>();
+
+  const flushCurrent = () => {
+    if (!current) return;
+    batch.push(finalizeCustomer(current));
+    if (batch.length >= CUSTOMERS_PER_BATCH) {
+      saveBatch(batch);
+      batch = [];
+      stopped = shouldStop();
+    }
+  };
+
+  for await (const line of lines) {
+    if (stopped) return;
+    if (!line.trim()) continue;
+
+    const record = JSON.parse(line);
+    const parentId: string | undefined = record.__parentId;
+    delete record.__parentId;
+
+    if (!parentId) {
+      flushCurrent();
+      current = { ...record, events: { nodes: [] }, orders: { nodes: [] } };
+      ordersById.clear();
+      continue;
+    }
+
+    switch (gidType(record.id)) {
+      case 'Order': {
+        const order = { ...record, lineItems: { nodes: [] }, returns: { nodes: [] } };
+        ordersById.set(order.id, order);
+        current?.orders.nodes.push(order);
+        break;
+      }
+      case 'LineItem':
+        ordersById.get(parentId)?.lineItems.nodes.push(record);
+        break;
+      case 'Return':
+        ordersById.get(parentId)?.returns.nodes.push(record);
+        break;
+      default:
+        // Events are the only nested customer nodes without an id in the query
+        current?.events.nodes.push(record);
+    }
+  }
+
+  flushCurrent();
+  if (batch.length > 0) {
+    saveBatch(batch);
+  }
+}
+
+function finalizeCustomer(customer: CustomerData): CustomerData {
+  // Match the paginated query's events(first: 5, reverse: true) and orders(first: 5, reverse: true)
+  const orders = [...customer.orders.nodes]
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    .slice(0, MAX_ORDERS)
+    .map((order) => ({
+      ...order,
+      lineItems: { nodes: order.lineItems.nodes.slice(0, MAX_ORDER_CHILDREN) },
+      returns: { nodes: order.returns.nodes.slice(0, MAX_ORDER_CHILDREN) },
+    }));
+
+  return {
+    ...customer,
+    events: { nodes: customer.events.nodes.slice(-MAX_EVENTS).reverse() },
+    orders: { nodes: orders },
+  };
+}
+
+function gidType(id: unknown): string | null {
+  if (typeof id !== 'string') return null;
+  const match = id.match(/^gid:\/\/shopify\/([^/]+)\//);
+  return match ? match[1] : null;
+}
@@ -6,9 +6,553 @@ require('dotenv').config({
 });
 
 import * as path from 'path';
-import { fetchAndSaveCustomers, exportCustomersToCSV } from './export-service';
+import * as fs from 'fs';
+import { once } from 'events';
+import { finished } from 'stream/promises';
+import { FetchOptions, FetchResult, exportCustomers } from './export-service';
+import { enqueueFetchJob, requeueJob } from './job-queue';
+import { runJobInForeground, startWorker } from './worker';
+import { addSchedule, editSchedule } from './scheduler';
+import { addWebhook, createWebhookDispatcher, queueWebhooksForJobEvents } from './webhooks';
+import { issueApiKey } from './auth';
+import { downloadLinkState, issueDownloadLink, withdrawDownloadLink } from './download-links';
+import { describeRetentionPolicy, loadRetentionPolicy, runCleanup } from './retention';
+import { AUDIT_ACTIONS, cliActor, recordAudit } from './audit';
 import { storeConfigs } from './shopify-client';
-import { getCustomerCount, getExportJobsByStore } from './database';
+import {
+  getCustomerChanges,
+  getActiveExportJob,
+  getCustomerCount,
+  getExportJob,
+  getExportJobsByStore,
+  getDownloadLinks,
+  getJobChangeSummary,
+  getPendingMigrations,
+  initializeDatabase,
+  requestJobControl,
+  getSchedules,
+  getScheduleRuns,
+  deleteSchedule,
+  getWebhooks,
+  getWebhookDeliveries,
+  deleteWebhook,
+  getApiKeys,
+  revokeApiKey,
+  iterateAuditEntries,
+  rotateEncryptionKey,
+  AuditQuery,
+} from './database';
+import { AuditAction, ExportJob, FetchStrategy, JobControlRequest } from './types';
+import { showJobProgress } from './progress-bar';
+import { DEFAULT_PROFILE_NAME, getCsvProfileNames } from './csv-profiles';
+import { EXPORT_FORMATS, isExportFormat, supportsGzip } from './export-formats';
+import { parseCustomerFilter } from './customer-filter';
+import { escapeCSVField } from './csv-profiles';
+import { readKeyFile } from './encryption';
+import { getMaskingPolicy } from './masking';
+import {
+  eraseDataSubject,
+  exportDataSubject,
+  findDataSubject,
+  getStaleExportFiles,
+  parseDataSubjectQuery,
+  purgeErasedData,
+} from './data-subjects';
+
+// Reads `--name value` or `--name=value` from the arguments after the store name
+// (or from `from` on, for commands without one)
+function getFlag(name: string, from: number = 4): string | undefined {
+  const args = process.argv.slice(from);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}`) return args[i + 1];
+    if (args[i].startsWith(`--${name}=`)) return args[i].slice(name.length + 3);
+  }
+  return undefined;
+}
+
+function hasFlag(name: string): boolean {
+  return process.argv.slice(4).includes(`--${name}`);
+}
+
+// Queues a fetch and runs it in this process, so it shows up in the server's queue as well
+async function runFetch(storeName: string, options: FetchOptions) {
+  const { job, created } = enqueueFetchJob(storeName, options);
+  if (!created) {
+    console.error(`❌ Error: ${storeName} already has an active job: ${job.id} (${job.status})`);
+    process.exit(1);
+  }
+
+  recordAudit(cliActor(), options.mode === 'sync' ? 'sync.trigger' : 'export.trigger', {
+    storeName,
+    jobId: job.id,
+    details: { strategy: options.strategy },
+  });
+
+  const result = await runWithProgress(job);
+  if (!result) {
+    console.log(`Job ${job.id} was picked up by a running worker. Follow it with GET /api/job/${job.id}/events`);
+    process.exit(0);
+  }
+  exitIfStopped(storeName, result);
+  return result;
+}
+
+async function runWithProgress(job: ExportJob) {
+  const hideProgress = showJobProgress(job.id);
+  try {
+    return await runJobInForeground(job);
+  } finally {
+    hideProgress();
+  }
+}
+
+// A cancelled or paused job ends the command, e.g. without writing the CSV of `both`
+function exitIfStopped(storeName: string, result: FetchResult) {
+  if (result.status === 'completed') return;
+
+  console.log(`\n⏹️  Job ${result.status} after ${result.totalCustomers.toLocaleString()} customers`);
+  console.log(`Job ID: ${result.jobId}`);
+  if (result.status === 'paused') {
+    console.log(`Continue it with: npm run export -- resume ${storeName}`);
+  }
+  process.exit(0);
+}
+
+// `schedules <subcommand> ...`; always exits
+function runSchedulesCommand(subcommand: string | undefined, args: string[]): never {
+  try {
+    switch (subcommand) {
+      case 'list':
+      case undefined: {
+        const schedules = getSchedules(args[0]);
+        if (schedules.length === 0) {
+          console.log('\nNo schedules\n');
+          break;
+        }
+
+        console.log('\n🗓️  Schedules:\n');
+        for (const schedule of schedules) {
+          const state = schedule.enabled ? `next ${schedule.nextRunAt || 'never'}` : 'disabled';
+          const options = Object.entries(schedule.options).map(([key, value]) => `${key}=${value}`).join(' ');
+          console.log(`  #${schedule.id}  ${schedule.storeName.padEnd(12)} ${schedule.cron.padEnd(16)} ${schedule.action.padEnd(5)} ${state}  ${options}`);
+        }
+        console.log('');
+        break;
+      }
+
+      case 'add': {
+        const [storeName, cron, action] = args;
+        const schedule = addSchedule({
+          storeName,
+          cron,
+          action,
+          options: {
+            strategy: getFlag('strategy') as FetchStrategy | undefined,
+            profile: getFlag('profile'),
+            masking: getFlag('masking'),
+            exportCsv: hasFlag('export-csv') || undefined,
+          },
+        });
+        console.log(`\n✅ Schedule #${schedule.id} added, next run ${schedule.nextRunAt} (UTC)\n`);
+        break;
+      }
+
+      case 'enable':
+      case 'disable': {
+        const schedule = editSchedule(Number(args[0]), { enabled: subcommand === 'enable' });
+        if (!schedule) throw new Error(`Schedule not found: ${args[0] || '(none given)'}`);
+        console.log(`\n✅ Schedule #${schedule.id} ${subcommand}d${schedule.nextRunAt ? `, next run ${schedule.nextRunAt}` : ''}\n`);
+        break;
+      }
+
+      case 'remove':
+        if (!deleteSchedule(Number(args[0]))) throw new Error(`Schedule not found: ${args[0] || '(none given)'}`);
+        console.log(`\n✅ Schedule #${args[0]} removed\n`);
+        break;
+
+      case 'runs': {
+        const runs = getScheduleRuns(Number(args[0]), 50);
+        console.log(`\n📋 Runs of schedule #${args[0]}:\n`);
+        for (const run of runs) {
+          console.log(`  ${run.scheduledFor}  ${run.status.padEnd(9)} ${run.jobId || ''} ${run.message || ''}`);
+        }
+        console.log('');
+        break;
+      }
+
+      default:
+        throw new Error(`Unknown schedules command: ${subcommand}. Use list, add, enable, disable, remove or runs`);
+    }
+  } catch (error) {
+    console.error(`❌ Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+// `webhooks <subcommand> ...`; always exits
+function runWebhooksCommand(subcommand: string | undefined, args: string[]): never {
+  try {
+    switch (subcommand) {
+      case 'list':
+      case undefined: {
+        const webhooks = getWebhooks(args[0]);
+        if (webhooks.length === 0) {
+          console.log('\nNo webhooks\n');
+          break;
+        }
+
+        console.log('\n🔔 Webhooks:\n');
+        for (const webhook of webhooks) {
+          const state = webhook.enabled ? '' : '  (disabled)';
+          console.log(`  #${webhook.id}  ${(webhook.storeName || 'all stores').padEnd(12)} ${webhook.url}  ${webhook.events.join(',')}${state}`);
+        }
+        console.log('');
+        break;
+      }
+
+      case 'add': {
+        // The store is optional, so flags may directly follow the url
+        const [url, storeName] = args;
+        const events = getFlag('events');
+        const webhook = addWebhook({
+          url,
+          storeName: storeName && !storeName.startsWith('--') ? storeName : null,
+          events: events ? events.split(',') : undefined,
+          secret: getFlag('secret'),
+        });
+        console.log(`\n✅ Webhook #${webhook.id} added for ${webhook.events.join(', ')}`);
+        console.log(`Secret: ${webhook.secret}\n`);
+        break;
+      }
+
+      case 'remove':
+        if (!deleteWebhook(Number(args[0]))) throw new Error(`Webhook not found: ${args[0] || '(none given)'}`);
+        console.log(`\n✅ Webhook #${args[0]} removed\n`);
+        break;
+
+      case 'deliveries': {
+        const deliveries = getWebhookDeliveries(Number(args[0]), 50);
+        console.log(`\n📋 Deliveries of webhook #${args[0]}:\n`);
+        for (const delivery of deliveries) {
+          const result = delivery.error || (delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : '');
+          console.log(`  ${delivery.createdAt}  ${delivery.event.padEnd(13)} ${delivery.status.padEnd(9)} ${delivery.attempts}x  ${delivery.jobId}  ${result}`);
+        }
+        console.log('');
+        break;
+      }
+
+      default:
+        throw new Error(`Unknown webhooks command: ${subcommand}. Use list, add, remove or deliveries`);
+    }
+  } catch (error) {
+    console.error(`❌ Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+// `keys <subcommand> ...`; always exits
+function runKeysCommand(subcommand: string | undefined, args: string[]): never {
+  try {
+    switch (subcommand) {
+      case 'list':
+      case undefined: {
+        const apiKeys = getApiKeys();
+        if (apiKeys.length === 0) {
+          console.log('\nNo API keys\n');
+          break;
+        }
+
+        console.log('\n🔑 API keys:\n');
+        for (const apiKey of apiKeys) {
+          const state = apiKey.revokedAt ? `revoked ${apiKey.revokedAt}` : `last used ${apiKey.lastUsedAt || 'never'}`;
+          const stores = apiKey.storeNames ? apiKey.storeNames.join(',') : 'all stores';
+          console.log(`  #${apiKey.id}  ${apiKey.prefix}…  ${apiKey.name.padEnd(16)} ${apiKey.scopes.join(',')}  ${stores}  ${state}`);
+        }
+        console.log('');
+        break;
+      }
+
+      case 'create': {
+        const scopes = getFlag('scopes');
+        const stores = getFlag('stores');
+        const { apiKey, key } = issueApiKey({
+          name: args[0]?.startsWith('--') ? undefined : args[0],
+          scopes: scopes ? scopes.split(',') : [],
+          storeNames: stores ? stores.split(',') : null,
+        });
+        console.log(`\n✅ API key #${apiKey.id} (${apiKey.name}) created with ${apiKey.scopes.join(', ')}`);
+        console.log(`Stores: ${apiKey.storeNames ? apiKey.storeNames.join(', ') : 'all'}`);
+        console.log(`\n  ${key}\n`);
+        console.log(`Store it now, it can't be shown again.\n`);
+        break;
+      }
+
+      case 'revoke':
+        if (!revokeApiKey(Number(args[0]))) throw new Error(`Active API key not found: ${args[0] || '(none given)'}`);
+        console.log(`\n✅ API key #${args[0]} revoked\n`);
+        break;
+
+      default:
+        throw new Error(`Unknown keys command: ${subcommand}. Use list, create or revoke`);
+    }
+  } catch (error) {
+    console.error(`❌ Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+// `links <subcommand> <jobId> ...`; always exits
+function runLinksCommand(subcommand: string | undefined, args: string[]): never {
+  try {
+    const jobId = args[0];
+    if (!jobId || jobId.startsWith('--') || !getExportJob(jobId)) {
+      throw new Error(`Job not found: ${jobId && !jobId.startsWith('--') ? jobId : '(none given)'}`);
+    }
+
+    switch (subcommand) {
+      case 'list': {
+        const links = getDownloadLinks(jobId);
+        if (links.length === 0) {
+          console.log(`\nNo download links for ${jobId}\n`);
+          break;
+        }
+
+        console.log(`\n🔗 Download links for ${jobId}:\n`);
+        for (const link of links) {
+          const uses = `${link.downloadCount} download(s)${link.singleUse ? ', single use' : ''}`;
+          console.log(`  #${link.id}  ${downloadLinkState(link).padEnd(8)} expires ${link.expiresAt}  ${uses}  ${link.label || ''}`);
+        }
+        console.log('');
+        break;
+      }
+
+      case 'create': {
+        const hours = getFlag('hours');
+        const { link, url } = issueDownloadLink(
+          jobId,
+          {
+            expiresInHours: hours === undefined ? undefined : Number(hours),
+            singleUse: hasFlag('single-use'),
+            label: getFlag('label'),
+          },
+          cliActor()
+        );
+        console.log(`\n✅ Download link #${link.id} created, expires ${link.expiresAt}${link.singleUse ? ', single use' : ''}`);
+        console.log(`\n  ${url}\n`);
+        if (!url.startsWith('http')) {
+          console.log(`Set PUBLIC_BASE_URL to get absolute links.\n`);
+        }
+        break;
+      }
+
+      case 'revoke':
+        if (!withdrawDownloadLink(jobId, Number(args[1]), cliActor())) {
+          throw new Error(`Active download link not found for ${jobId}: ${args[1] || '(none given)'}`);
+        }
+        console.log(`\n✅ Download link #${args[1]} revoked\n`);
+        break;
+
+      default:
+        throw new Error(`Unknown links command: ${subcommand}. Use list, create or revoke`);
+    }
+  } catch (error) {
+    console.error(`❌ Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+const AUDIT_CSV_COLUMNS = ['id', 'at', 'action', 'actorType', 'actor', 'apiKeyId', 'clientIp', 'storeName', 'jobId', 'filePath', 'details'] as const;
+
+// `audit <subcommand> ...`; always exits
+async function runAuditCommand(subcommand: string | undefined, args: string[]): Promise<never> {
+  try {
+    const action = getFlag('action');
+    if (action && !AUDIT_ACTIONS.includes(action as AuditAction)) {
+      throw new Error(`Invalid action: ${action}. Available actions: ${AUDIT_ACTIONS.join(', ')}`);
+    }
+    const query: AuditQuery = {
+      storeName: getFlag('store'),
+      action: action as AuditAction | undefined,
+      actor: getFlag('actor'),
+      jobId: getFlag('job'),
+      since: parseTimestampFlag('since'),
+      until: parseTimestampFlag('until'),
+    };
+
+    switch (subcommand) {
+      case 'list':
+      case undefined: {
+        const limit = parseInt(getFlag('limit') || '') || 50;
+        console.log('\n📜 Audit log (newest first):\n');
+        for (const entry of iterateAuditEntries({ ...query, limit })) {
+          const details = Object.entries(entry.details).map(([key, value]) => `${key}=${value}`).join(' ');
+          const from = entry.clientIp ? ` from ${entry.clientIp}` : '';
+          console.log(`  ${entry.at}  ${entry.action.padEnd(16)} ${entry.storeName.padEnd(12)} ${entry.actor}${from}  ${entry.jobId || ''} ${details}`);
+        }
+        console.log('');
+        break;
+      }
+
+      case 'export': {
+        // The file name is the first argument unless a flag comes first
+        const format = getFlag('format') || 'csv';
+        if (format !== 'csv' && format !== 'jsonl') {
+          throw new Error(`Invalid format: ${format}. Available formats: csv, jsonl`);
+        }
+        const outputFile = args[0] && !args[0].startsWith('--') ? args[0] : `audit-log-${new Date().toISOString().split('T')[0]}.${format}`;
+
+        const output = fs.createWriteStream(outputFile);
+        const write = (line: string) =>
+          output.write(`${line}\n`) ? Promise.resolve() : once(output, 'drain').then(() => undefined);
+
+        if (format === 'csv') {
+          await write(AUDIT_CSV_COLUMNS.join(','));
+        }
+        let exported = 0;
+        for (const entry of iterateAuditEntries({ ...query, oldestFirst: true })) {
+          if (format === 'csv') {
+            const values = AUDIT_CSV_COLUMNS.map((column) =>
+              column === 'details' ? JSON.stringify(entry.details) : String(entry[column] ?? '')
+            );
+            await write(values.map(escapeCSVField).join(','));
+          } else {
+            await write(JSON.stringify(entry));
+          }
+          exported++;
+        }
+        output.end();
+        await finished(output);
+
+        console.log(`\n✅ Exported ${exported.toLocaleString()} audit entries to ${path.resolve(outputFile)}\n`);
+        break;
+      }
+
+      default:
+        throw new Error(`Unknown audit command: ${subcommand}. Use list or export`);
+    }
+  } catch (error) {
+    console.error(`❌ Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+function runSubjectCommand(subcommand: string | undefined, args: string[]): never {
+  try {
+    if (subcommand === 'stale-files') {
+      const files = getStaleExportFiles();
+      if (files.length === 0) {
+        console.log('\n✅ No export files need regenerating\n');
+        process.exit(0);
+      }
+      console.log('\n⚠️  Export files that may contain erased customers (regenerate them, then delete the old file):\n');
+      for (const file of files) {
+        console.log(`  ${file.staleSince}  ${file.storeName.padEnd(12)} ${file.jobId}  ${file.filePath}`);
+      }
+      console.log('');
+      process.exit(0);
+    }
+
+    if (subcommand === 'purge') {
+      if (!purgeErasedData()) {
+        console.log('\n⚠️  The database is still in use, e.g. by an export. Try again once it has finished.\n');
+        process.exit(1);
+      }
+      console.log('\n✅ Database vacuumed, no erased data is left in the file\n');
+      process.exit(0);
+    }
+
+    const query = parseDataSubjectQuery({ email: getFlag('email'), phone: getFlag('phone'), customerId: getFlag('id') });
+
+    switch (subcommand) {
+      case 'find': {
+        const records = findDataSubject(query);
+        console.log(`\n🔎 ${records.length} matching customer(s):\n`);
+        for (const { storeName, customer } of records) {
+          const deleted = customer.deletedAt ? `  (deleted in Shopify ${customer.deletedAt})` : '';
+          console.log(`  ${storeName.padEnd(12)} ${customer.id}  ${customer.displayName}${deleted}`);
+        }
+        console.log('');
+        break;
+      }
+
+      case 'export': {
+        // The file name is the first argument unless a flag comes first
+        const outputFile = args[0] && !args[0].startsWith('--') ? args[0] : `data-subject-${new Date().toISOString().split('T')[0]}.json`;
+        const bundle = exportDataSubject(query, cliActor());
+        fs.writeFileSync(outputFile, JSON.stringify(bundle, null, 2), { mode: 0o600 });
+        console.log(`\n✅ Wrote ${bundle.customers.length} customer(s) and their change history to ${path.resolve(outputFile)}`);
+        if (bundle.exportFiles.length > 0) {
+          console.log(`   ${bundle.exportFiles.length} export file(s) on disk may also contain them (listed under exportFiles)`);
+        }
+        console.log('');
+        break;
+      }
+
+      case 'erase': {
+        const records = findDataSubject(query);
+        if (records.length === 0) {
+          console.log('\nNo matching customers\n');
+          break;
+        }
+        if (!hasFlag('yes')) {
+          console.log(`\nThis permanently deletes ${records.length} customer(s):\n`);
+          for (const { storeName, customer } of records) {
+            console.log(`  ${storeName.padEnd(12)} ${customer.id}  ${customer.displayName}`);
+          }
+          console.log(`\nRun again with --yes to erase them.\n`);
+          break;
+        }
+
+        const result = eraseDataSubject(query, cliActor());
+        console.log(`\n🗑️  Erased ${result.erased.length} customer(s):\n`);
+        for (const erased of result.erased) {
+          console.log(`  ${erased.storeName.padEnd(12)} ${erased.customerId}  (${erased.rowsDeleted} rows)`);
+        }
+        if (result.staleFiles.length > 0) {
+          console.log(`\n⚠️  ${result.staleFiles.length} export file(s) may still contain them and were flagged for regeneration:`);
+          for (const file of result.staleFiles) {
+            console.log(`  ${file.filePath}`);
+          }
+        }
+        if (result.purgePending) {
+          console.log(`\n⚠️  The database was in use, so erased data is still in the file. Run \`subject purge\` once nothing else is using it.`);
+        }
+        console.log(`\nErase them in Shopify too, or the next fetch brings them back.\n`);
+        break;
+      }
+
+      default:
+        throw new Error(`Unknown subject command: ${subcommand}. Use find, export, erase, purge or stale-files`);
+    }
+  } catch (error) {
+    console.error(`❌ Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+function parseTimestampFlag(name: string): string | undefined {
+  const value = getFlag(name);
+  if (value === undefined) return undefined;
+  if (isNaN(Date.parse(value))) {
+    throw new Error(`Invalid --${name} timestamp: ${value}`);
+  }
+  return new Date(value).toISOString();
+}
+
+// Sends the webhooks this run queued once; failed ones are retried by the server or a worker
+async function deliverWebhooks() {
+  try {
+    await createWebhookDispatcher().tick();
+  } catch (error) {
+    console.error('Failed to deliver webhooks:', error);
+  }
+}
 
 async function main() {
   const command = process.argv[2];
@@ -19,29 +563,287 @@ async function main() {
 Customer Export CLI
 
 Usage:
-  npm run export -- <command> <storeName>
+  npm run export -- <command> <storeName> [options]
 
 Commands:
   fetch <storeName>   - Fetch customers from Shopify and save to database
-  csv <storeName>     - Export customers from database to CSV
+  csv <storeName>     - Export customers from database to CSV (or --format)
   both <storeName>    - Fetch from Shopify then export to CSV
-  resume <storeName>  - Resume a failed export from the last saved position
+  resume <storeName>  - Resume a failed or paused export from the last saved position
+  sync <storeName>    - Fetch only customers updated since the last completed job
   count <storeName>   - Show customer count in database
   list                - List all stores and their customer counts
+  migrate             - Apply pending database migrations (--dry-run to only list them)
+  customer-history <customerId> - Show a customer's field changes (--field to narrow, e.g. defaultAddress)
+  job-changes <jobId> - Summarize the customer changes detected by a job
+  cancel <jobId>      - Cancel a queued, running or paused fetch job
+  pause <jobId>       - Pause a queued or running fetch job (resume continues it)
+  schedules list [storeName]                      - List recurring exports
+  schedules add <storeName> "<cron>" <full|sync|csv> - Add one (--strategy, --profile, --masking, --export-csv)
+  schedules enable|disable|remove <scheduleId>    - Change or delete one
+  schedules runs <scheduleId>                     - Show its executed, skipped and missed runs
+  webhooks list [storeName]                       - List job notification webhooks
+  webhooks add <url> [storeName]                  - Add one for a store or all stores (--events, --secret)
+  webhooks remove <webhookId>                     - Delete one
+  webhooks deliveries <webhookId>                 - Show its delivery attempts
+  keys list                                       - List API keys
+  keys create <name> --scopes <scopes>            - Create one (--stores to restrict it); the key is shown once
+  keys revoke <keyId>                             - Revoke one
+  links list <jobId>                              - List download links for a job's export file
+  links create <jobId>                            - Issue a signed link that works without an API key (--hours, --single-use, --label)
+  links revoke <jobId> <linkId>                   - Revoke one
+  audit list                                      - Show recent exports and downloads (--store, --action, --actor, --job, --since, --until, --limit)
+  audit export [file]                             - Write the audit log to CSV or JSONL (--format, same filters as list)
+  subject find --email <email>                    - Find a customer in every store (or --phone, --id)
+  subject export [file] --email <email>           - Write everything held about them to a JSON file
+  subject erase --email <email> --yes             - Erase them from the database and flag export files containing them
+  subject purge                                   - Retry the vacuum of an erasure the database was too busy for
+  subject stale-files                             - List export files flagged by erasures
+  cleanup             - Delete export files and jobs past the retention limits (--dry-run to only list them)
+  rotate-key          - Re-encrypt customer data with a new data key (--new-key-file to change the master key too)
+  worker              - Run queued jobs until stopped (WORKER_CONCURRENCY at a time)
+
+Options:
+  --strategy <name>   - How fetch, both and sync pull customers: paginated (default) or bulk
+  --profile <name>    - CSV column profile for csv and both (see config/csv-profiles.json)
+  --format <format>   - Output format for csv and both: csv (default), jsonl, xlsx or parquet
+  --gzip              - Gzip csv or jsonl output
+  --filter <expr>     - Only export matching customers, e.g. "tag:VIP numberOfOrders>=3"
+  --include-deleted   - Also export customers that a full fetch marked as deleted in Shopify
+  --masking <name>    - Mask PII in csv and both output (see config/masking-policies.json)
 
 Examples:
   npm run export -- fetch evisu-us
+  npm run export -- fetch evisu-us --strategy bulk
   npm run export -- csv evisu-us
+  npm run export -- csv evisu-us --profile marketing
+  npm run export -- csv evisu-us --format parquet
+  npm run export -- csv evisu-us --format jsonl --gzip
+  npm run export -- csv evisu-us --filter "acceptsMarketing:true country:US createdAt>=2024-01-01"
+  npm run export -- csv evisu-us --format parquet --masking analytics
   npm run export -- both evisu-us
   npm run export -- resume evisu-us
+  npm run export -- sync evisu-us
   npm run export -- count evisu-us
   npm run export -- list
+  npm run export -- migrate --dry-run
+  npm run export -- customer-history 7012345678901 --field defaultAddress
+  npm run export -- job-changes sync_evisu-us_1699920000000_e8c41f07
+  npm run export -- pause export_evisu-us_1699920000000_a3f1c9e2
+  npm run export -- schedules add evisu-us "0 2 * * *" sync --export-csv --profile marketing
+  npm run export -- webhooks add https://hooks.example.com/exports evisu-us --events job.failed,file.created
+  npm run export -- keys create eu-team --scopes status:read,data:download --stores evisu-eu
+  npm run export -- links create file_evisu-us_1699920000000_9d2e6a13 --hours 24 --single-use --label "marketing agency"
+  npm run export -- subject export jane.json --email jane@example.com
+  npm run export -- subject erase --phone "+81 90-1234-5678" --yes
+  npm run export -- cleanup --dry-run
+  npm run export -- audit export audit-2025-q4.csv --store evisu-eu --since 2025-10-01 --until 2025-12-31T23:59:59Z
 
 Available stores: ${Object.keys(storeConfigs).join(', ')}
     `);
     process.exit(0);
   }
 
+  if (command === 'migrate') {
+    try {
+      const pending = getPendingMigrations();
+      if (pending.length === 0) {
+        console.log('\n✅ Database schema is up to date\n');
+        process.exit(0);
+      }
+
+      console.log(`\n📋 Pending migrations:\n`);
+      pending.forEach((migration) => console.log(`  ${migration.version}. ${migration.name}`));
+      console.log('');
+
+      if (!process.argv.slice(3).includes('--dry-run')) {
+        initializeDatabase();
+        console.log(`\n✅ Applied ${pending.length} migration(s)\n`);
+      }
+      process.exit(0);
+    } catch (error) {
+      console.error(`\n❌ Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  }
+
+  try {
+    initializeDatabase();
+  } catch (error) {
+    console.error(`\n❌ Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+  queueWebhooksForJobEvents();
+
+  if (command === 'customer-history') {
+    const customerId = process.argv[3];
+    if (!customerId) {
+      console.error('❌ Error: Customer ID is required');
+      process.exit(1);
+    }
+
+    const field = getFlag('field');
+    const changes = getCustomerChanges(customerId, { fieldPrefix: field, limit: 1000 });
+    if (changes.length === 0) {
+      console.log(`\nNo recorded changes for ${customerId}${field ? ` in ${field}` : ''}\n`);
+      process.exit(0);
+    }
+
+    console.log(`\n🕘 Change history for ${customerId}:\n`);
+    for (const change of changes) {
+      console.log(`  ${change.changedAt}  ${change.fieldPath}  (job ${change.jobId || 'unknown'})`);
+      console.log(`    - ${JSON.stringify(change.oldValue)}`);
+      console.log(`    + ${JSON.stringify(change.newValue)}`);
+    }
+    console.log('');
+    process.exit(0);
+  }
+
+  if (command === 'job-changes') {
+    const jobId = process.argv[3];
+    if (!jobId || !getExportJob(jobId)) {
+      console.error(`❌ Error: Job not found: ${jobId || '(none given)'}`);
+      process.exit(1);
+    }
+
+    const summary = getJobChangeSummary(jobId, 0);
+    console.log(`\n📊 Changes in ${jobId}:`);
+    console.log(`  ${summary.totalChanges.toLocaleString()} changes across ${summary.customersChanged.toLocaleString()} customers\n`);
+    for (const field of summary.fields) {
+      console.log(`  ${field.fieldPath.padEnd(40)} ${field.changes.toLocaleString()} (${field.customers.toLocaleString()} customers)`);
+    }
+    console.log('');
+    process.exit(0);
+  }
+
+  if (command === 'cancel' || command === 'pause') {
+    const jobId = process.argv[3];
+    const job = jobId ? getExportJob(jobId) : null;
+    if (!job) {
+      console.error(`❌ Error: Job not found: ${jobId || '(none given)'}`);
+      process.exit(1);
+    }
+
+    const request = command as JobControlRequest;
+    if (request === 'pause' && job.fetchStrategy === 'bulk') {
+      console.error(`❌ Error: Bulk jobs cannot be paused, cancel the job instead`);
+      process.exit(1);
+    }
+
+    const updated = requestJobControl(job.id, request);
+    if (!updated) {
+      console.error(`❌ Error: Job ${job.id} cannot be ${request === 'cancel' ? 'cancelled' : 'paused'} (${job.status})`);
+      process.exit(1);
+    }
+
+    if (updated.controlRequest === request) {
+      console.log(`\n⏳ ${request === 'cancel' ? 'Cancellation' : 'Pause'} requested, ${job.id} stops after its current batch\n`);
+    } else {
+      console.log(`\n✅ Job ${job.id} ${updated.status}\n`);
+    }
+    process.exit(0);
+  }
+
+  if (command === 'schedules') {
+    runSchedulesCommand(process.argv[3], process.argv.slice(4));
+  }
+
+  if (command === 'webhooks') {
+    runWebhooksCommand(process.argv[3], process.argv.slice(4));
+  }
+
+  if (command === 'keys') {
+    runKeysCommand(process.argv[3], process.argv.slice(4));
+  }
+
+  if (command === 'links') {
+    runLinksCommand(process.argv[3], process.argv.slice(4));
+  }
+
+  if (command === 'audit') {
+    await runAuditCommand(process.argv[3], process.argv.slice(4));
+  }
+
+  if (command === 'subject') {
+    runSubjectCommand(process.argv[3], process.argv.slice(4));
+  }
+
+  if (command === 'rotate-key') {
+    try {
+      const newKeyFile = getFlag('new-key-file', 3);
+      const newMasterKey = newKeyFile ? readKeyFile(newKeyFile) : undefined;
+
+      console.log(`\n🔐 Re-encrypting customer data with a new data key...\n`);
+      const { values, removedKeys } = rotateEncryptionKey({ newMasterKey });
+      console.log(`✅ Re-encrypted ${values.toLocaleString()} values, removed ${removedKeys} old data key(s)`);
+      if (newKeyFile) {
+        console.log(`\nThe data keys are now protected by ${newKeyFile}.`);
+        console.log(`Point DATA_ENCRYPTION_KEY_FILE at it (or set DATA_ENCRYPTION_KEY to its contents) before starting the server.`);
+      }
+      console.log('');
+      process.exit(0);
+    } catch (error) {
+      console.error(`\n❌ Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  }
+
+  if (command === 'cleanup') {
+    try {
+      const dryRun = process.argv.slice(3).includes('--dry-run');
+      const policy = loadRetentionPolicy();
+      const result = runCleanup({ dryRun, policy, actor: cliActor() });
+      const verb = dryRun ? 'Would delete' : 'Deleted';
+
+      console.log(`\n🧹 Retention: ${describeRetentionPolicy(policy)}\n`);
+      if (result.files.length === 0 && result.jobs.length === 0) {
+        console.log('✅ Nothing to clean up\n');
+        process.exit(0);
+      }
+
+      if (result.files.length > 0) {
+        const removed = result.files.filter((file) => file.fileSize !== null).length;
+        const megabytes = (result.freedBytes / (1024 * 1024)).toFixed(1);
+        const gone = result.files.length - removed;
+        console.log(`${verb} ${removed} export file(s), ${megabytes} MB${gone > 0 ? `; ${gone} more already gone from disk` : ''}:\n`);
+        for (const file of result.files) {
+          console.log(`  ${file.storeName.padEnd(12)} ${file.filePath}`);
+          console.log(`  ${''.padEnd(12)} ${file.reason}`);
+        }
+        console.log('');
+      }
+      if (result.jobs.length > 0) {
+        console.log(`${verb} ${result.jobs.length} finished job(s):\n`);
+        for (const job of result.jobs) {
+          console.log(`  ${job.storeName.padEnd(12)} ${job.id}  ${job.status}  ${job.completedAt || job.startedAt}`);
+        }
+        console.log('');
+      }
+      if (dryRun) {
+        console.log('Run again without --dry-run to delete them.\n');
+      }
+      process.exit(0);
+    } catch (error) {
+      console.error(`\n❌ Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  }
+
+  if (command === 'worker') {
+    const worker = startWorker();
+    const dispatcher = createWebhookDispatcher();
+    dispatcher.start();
+    const shutdown = async () => {
+      console.log('\nStopping worker, waiting for running jobs...');
+      await worker.stop();
+      dispatcher.stop();
+      process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+    return;
+  }
+
   if (command === 'list') {
     console.log('\n📊 Stores and Customer Counts:\n');
     Object.keys(storeConfigs).forEach((store) => {
@@ -64,52 +866,133 @@ Available stores: ${Object.keys(storeConfigs).join(', ')}
     process.exit(1);
   }
 
+  const strategy = (getFlag('strategy') || 'paginated') as FetchStrategy;
+  if (strategy !== 'paginated' && strategy !== 'bulk') {
+    console.error(`❌ Error: Invalid strategy: ${strategy}`);
+    console.error(`Available strategies: paginated, bulk`);
+    process.exit(1);
+  }
+
+  const profile = getFlag('profile') || DEFAULT_PROFILE_NAME;
+  if ((command === 'csv' || command === 'both') && !getCsvProfileNames().includes(profile)) {
+    console.error(`❌ Error: Invalid CSV profile: ${profile}`);
+    console.error(`Available profiles: ${getCsvProfileNames().join(', ')}`);
+    process.exit(1);
+  }
+
+  const format = getFlag('format') || 'csv';
+  if (!isExportFormat(format)) {
+    console.error(`❌ Error: Invalid format: ${format}`);
+    console.error(`Available formats: ${EXPORT_FORMATS.join(', ')}`);
+    process.exit(1);
+  }
+
+  const gzip = hasFlag('gzip');
+  if (gzip && !supportsGzip(format)) {
+    console.error(`❌ Error: --gzip is only supported for csv and jsonl`);
+    process.exit(1);
+  }
+
+  const includeDeleted = hasFlag('include-deleted');
+
+  const masking = getFlag('masking');
+  if (masking) {
+    try {
+      getMaskingPolicy(masking);
+    } catch (error) {
+      console.error(`❌ Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  }
+
+  const filter = getFlag('filter');
+  if (filter) {
+    try {
+      parseCustomerFilter(filter);
+    } catch (error) {
+      console.error(`❌ Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  }
+
   try {
     switch (command) {
       case 'fetch':
         console.log(`\n📥 Fetching customers from ${storeName}...\n`);
-        const fetchResult = await fetchAndSaveCustomers(storeName);
+        const fetchResult = await runFetch(storeName, { strategy });
         console.log(`\n✅ Success! Fetched ${fetchResult.totalCustomers} customers`);
+        console.log(`Deleted in Shopify: ${getExportJob(fetchResult.jobId)?.deletedCustomers ?? 0}`);
         console.log(`Job ID: ${fetchResult.jobId}`);
         break;
 
       case 'csv':
-        console.log(`\n📝 Exporting customers to CSV for ${storeName}...\n`);
-        const csvPath = await exportCustomersToCSV(storeName);
-        console.log(`\n✅ Success! CSV file created:`);
+        console.log(`\n📝 Exporting customers to ${format.toUpperCase()} for ${storeName}...\n`);
+        const { filePath: csvPath } = await exportCustomers(storeName, {
+          profile,
+          format,
+          gzip,
+          filter,
+          includeDeleted,
+          masking,
+          actor: cliActor(),
+        });
+        console.log(`\n✅ Success! ${format.toUpperCase()} file created:`);
         console.log(`   ${csvPath}`);
         break;
 
       case 'both':
         console.log(`\n📥 Fetching customers from ${storeName}...\n`);
-        const bothResult = await fetchAndSaveCustomers(storeName);
+        const bothResult = await runFetch(storeName, { strategy });
         console.log(`\n✅ Fetched ${bothResult.totalCustomers} customers`);
         
-        console.log(`\n📝 Exporting to CSV...\n`);
-        const csvPath2 = await exportCustomersToCSV(storeName, bothResult.jobId);
-        console.log(`\n✅ Success! CSV file created:`);
+        console.log(`\n📝 Exporting to ${format.toUpperCase()}...\n`);
+        const { filePath: csvPath2 } = await exportCustomers(storeName, {
+          jobId: bothResult.jobId,
+          profile,
+          format,
+          gzip,
+          filter,
+          includeDeleted,
+          masking,
+          actor: cliActor(),
+        });
+        console.log(`\n✅ Success! ${format.toUpperCase()} file created:`);
         console.log(`   ${csvPath2}`);
         break;
 
+      case 'sync':
+        console.log(`\n🔄 Syncing updated customers from ${storeName}...\n`);
+        const syncResult = await runFetch(storeName, { mode: 'sync', strategy });
+        console.log(`\n✅ Success! Synced ${syncResult.totalCustomers} updated customers`);
+        console.log(`Job ID: ${syncResult.jobId}`);
+        break;
+
       case 'count':
         const count = getCustomerCount(storeName);
         console.log(`\n📊 ${storeName}: ${count.toLocaleString()} customers in database\n`);
         break;
 
       case 'resume':
-        console.log(`\n🔄 Looking for failed export to resume for ${storeName}...\n`);
+        console.log(`\n🔄 Looking for failed or paused export to resume for ${storeName}...\n`);
+
+        const activeJob = getActiveExportJob(storeName);
+        if (activeJob) {
+          console.error(`❌ ${storeName} already has an active job: ${activeJob.id} (${activeJob.status})`);
+          process.exit(1);
+        }
         
-        // Find the latest failed job
+        // Find the latest failed or paused job
         const jobs = getExportJobsByStore(storeName, 10);
-        const failedJob = jobs.find(job => job.status === 'failed');
+        const failedJob = jobs.find(job => (job.status === 'failed' || job.status === 'paused') && job.mode !== 'file');
         
         if (!failedJob) {
-          console.error(`❌ No failed export found for ${storeName}`);
+          console.error(`❌ No failed or paused export found for ${storeName}`);
           console.error(`   Use 'fetch' command to start a new export`);
           process.exit(1);
         }
         
-        if (!failedJob.lastCursor) {
+        // A job paused before its first batch simply starts over, and bulk jobs always do
+        if (failedJob.status === 'failed' && !failedJob.lastCursor && failedJob.fetchStrategy !== 'bulk') {
           console.error(`❌ Failed job has no saved cursor to resume from`);
           console.error(`   Job ID: ${failedJob.id}`);
           console.error(`   The job may have failed before processing any batches.`);
@@ -117,16 +1000,31 @@ Available stores: ${Object.keys(storeConfigs).join(', ')}
           process.exit(1);
         }
         
-        console.log(`Found failed job: ${failedJob.id}`);
+        console.log(`Found ${failedJob.status} job: ${failedJob.id}`);
         console.log(`Previously processed: ${failedJob.processedCustomers.toLocaleString()} customers`);
-        console.log(`Error: ${failedJob.error}`);
+        if (failedJob.fetchStrategy === 'bulk') {
+          console.log(`Bulk operations can't continue where they stopped, so it runs again from the start`);
+        }
+        if (failedJob.error) {
+          console.log(`Error: ${failedJob.error}`);
+        }
         console.log(`\n📥 Resuming export...\n`);
         
-        const resumeResult = await fetchAndSaveCustomers(
+        const requeued = requeueJob(failedJob.id, failedJob.jobOptions);
+        recordAudit(cliActor(), 'export.resume', {
           storeName,
-          failedJob.id,
-          failedJob.lastCursor
-        );
+          jobId: failedJob.id,
+          details: {
+            exportCsv: failedJob.jobOptions.exportCsv,
+            resumedFrom: failedJob.fetchStrategy === 'bulk' ? 0 : failedJob.processedCustomers,
+          },
+        });
+        const resumeResult = requeued && (await runWithProgress(requeued));
+        if (!resumeResult) {
+          console.log(`Job ${failedJob.id} was picked up by a running worker.`);
+          break;
+        }
+        exitIfStopped(storeName, resumeResult);
         
         console.log(`\n✅ Success! Export completed`);
         console.log(`Total customers: ${resumeResult.totalCustomers.toLocaleString()}`);
@@ -135,13 +1033,15 @@ Available stores: ${Object.keys(storeConfigs).join(', ')}
 
       default:
         console.error(`❌ Error: Unknown command: ${command}`);
-        console.error(`Available commands: fetch, csv, both, resume, count, list`);
+        console.error(`Available commands: fetch, csv, both, resume, sync, count, list, migrate, customer-history, job-changes, cancel, pause, schedules, webhooks, keys, links, audit, subject, cleanup, rotate-key, worker`);
         process.exit(1);
     }
 
+    await deliverWebhooks();
     process.exit(0);
   } catch (error) {
     console.error('\n❌ Error:', error);
+    await deliverWebhooks();
     process.exit(1);
   }
 }
@@ -0,0 +1,122 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week),
+// evaluated in UTC so schedules don't shift with the server's timezone
+
+type CronField = {
+  name: string;
+  min: number;
+  max: number;
+};
+
+const FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }, // 0 and 7 are both Sunday
+];
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+// Far enough for any valid expression, e.g. `0 0 29 2 *` only matches in leap years
+const MAX_SEARCH_YEARS = 5;
+
+export type CronSchedule = {
+  expression: string;
+  matches(date: Date): boolean;
+  // The first matching minute strictly after `after`, or null if there is none
+  next(after: Date): Date | null;
+};
+
+/**
+ * Parses expressions such as `0 2 * * *` (02:00 every day) or `*\/15 8-18 * * 1-5`.
+ * Fields accept `*`, numbers, ranges (`1-5`), steps (`*\/15`, `0-30/10`) and
+ * comma-separated lists. Throws on anything else.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const normalized = expression.trim().replace(/\s+/g, ' ');
+  const parts = (ALIASES[normalized] || normalized).split(' ');
+  if (parts.length !== FIELDS.length) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields (minute hour day month weekday)`);
+  }
+
+  const [minutes, hours, days, months, weekdays] = parts.map((part, i) => parseField(part, FIELDS[i], expression));
+  for (const day of weekdays) {
+    if (day === 7) weekdays.add(0);
+  }
+
+  // As in standard cron, when both day fields are restricted a date matching either one counts
+  const daysRestricted = !parts[2].startsWith('*');
+  const weekdaysRestricted = !parts[4].startsWith('*');
+  const matchesDay = (date: Date) => {
+    const dayMatch = days.has(date.getUTCDate());
+    const weekdayMatch = weekdays.has(date.getUTCDay());
+    if (daysRestricted && weekdaysRestricted) return dayMatch || weekdayMatch;
+    return dayMatch && weekdayMatch;
+  };
+
+  const matches = (date: Date) =>
+    minutes.has(date.getUTCMinutes()) &&
+    hours.has(date.getUTCHours()) &&
+    months.has(date.getUTCMonth() + 1) &&
+    matchesDay(date);
+
+  const next = (after: Date): Date | null => {
+    const date = new Date(after.getTime());
+    date.setUTCSeconds(0, 0);
+    date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+    const limit = after.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * 60 * 1000;
+    while (date.getTime() <= limit) {
+      // Skip whole months, days and hours that can't match instead of testing every minute
+      if (!months.has(date.getUTCMonth() + 1)) {
+        date.setUTCMonth(date.getUTCMonth() + 1, 1);
+        date.setUTCHours(0, 0);
+      } else if (!matchesDay(date)) {
+        date.setUTCDate(date.getUTCDate() + 1);
+        date.setUTCHours(0, 0);
+      } else if (!hours.has(date.getUTCHours())) {
+        date.setUTCHours(date.getUTCHours() + 1, 0);
+      } else if (!minutes.has(date.getUTCMinutes())) {
+        date.setUTCMinutes(date.getUTCMinutes() + 1);
+      } else {
+        return date;
+      }
+    }
+    return null;
+  };
+
+  if (!next(new Date())) {
+    throw new Error(`Invalid cron expression "${expression}": it never matches a date`);
+  }
+
+  return { expression: normalized, matches, next };
+}
+
+function parseField(part: string, field: CronField, expression: string): Set<number> {
+  const values = new Set<number>();
+  const invalid = () => new Error(`Invalid cron expression "${expression}": bad ${field.name} "${part}"`);
+
+  for (const item of part.split(',')) {
+    const match = item.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) throw invalid();
+
+    const [, range, start, end, step] = match;
+    const from = range === '*' ? field.min : Number(start);
+    // `5/15` means every 15 starting at 5, like `5-59/15`
+    const to = range === '*' ? field.max : end !== undefined ? Number(end) : step ? field.max : from;
+    const increment = step ? Number(step) : 1;
+
+    if (from < field.min || to > field.max || from > to || increment < 1) throw invalid();
+    for (let value = from; value <= to; value += increment) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
@@ -0,0 +1,222 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CustomerData } from './types';
+
+const PROFILES_PATH =
+  process.env.CSV_PROFILES_PATH || path.join(__dirname, '../config/csv-profiles.json');
+
+// The built-in column set used when no profile is requested
+export const DEFAULT_PROFILE_NAME = 'default';
+
+export type ColumnTransform = 'join' | 'date' | 'boolean' | 'json';
+
+export type CsvColumn = {
+  header: string;
+  // Dot path into CustomerData, e.g. `defaultAddress.city`. `[]` maps over an
+  // array, e.g. `addresses[].city`, and a number picks an element, e.g. `orders.nodes.0.id`
+  path: string;
+  transform?: ColumnTransform;
+  separator?: string; // join: defaults to ', '
+  dateFormat?: 'iso' | 'date' | 'datetime' | 'epoch'; // date: defaults to 'date'
+  booleanStyle?: 'true/false' | 'yes/no' | '1/0' | 'Y/N'; // boolean: defaults to 'true/false'
+  default?: string; // Written when the value is null or missing
+  type?: 'string' | 'number' | 'date' | 'boolean'; // Cell type in typed formats such as XLSX
+};
+
+export type CsvProfile = {
+  name: string;
+  description?: string;
+  columns: CsvColumn[];
+};
+
+// The built-in 40-column layout. Values are escaped exactly once, when the row is written.
+const DEFAULT_PROFILE: CsvProfile = {
+  name: DEFAULT_PROFILE_NAME,
+  description: 'All customer fields, with addresses, events and orders as JSON',
+  columns: [
+    { header: 'id', path: 'id' },
+    { header: 'firstName', path: 'firstName' },
+    { header: 'lastName', path: 'lastName' },
+    { header: 'displayName', path: 'displayName' },
+    { header: 'email', path: 'defaultEmailAddress.emailAddress' },
+    { header: 'phone', path: 'defaultPhoneNumber.phoneNumber' },
+    { header: 'verifiedEmail', path: 'verifiedEmail', transform: 'boolean', default: 'false' },
+    { header: 'state', path: 'state' },
+    { header: 'locale', path: 'locale' },
+    { header: 'note', path: 'note' },
+    { header: 'tags', path: 'tags', transform: 'join' },
+    { header: 'createdAt', path: 'createdAt', type: 'date' },
+    { header: 'updatedAt', path: 'updatedAt', type: 'date' },
+    { header: 'amountSpent', path: 'amountSpent.amount', default: '0', type: 'number' },
+    { header: 'amountSpentCurrency', path: 'amountSpent.currencyCode' },
+    { header: 'numberOfOrders', path: 'numberOfOrders', default: '0', type: 'number' },
+    { header: 'lifetimeDuration', path: 'lifetimeDuration' },
+    { header: 'defaultAddress_address1', path: 'defaultAddress.address1' },
+    { header: 'defaultAddress_address2', path: 'defaultAddress.address2' },
+    { header: 'defaultAddress_city', path: 'defaultAddress.city' },
+    { header: 'defaultAddress_country', path: 'defaultAddress.country' },
+    { header: 'defaultAddress_countryCodeV2', path: 'defaultAddress.countryCodeV2' },
+    { header: 'defaultAddress_province', path: 'defaultAddress.province' },
+    { header: 'defaultAddress_provinceCode', path: 'defaultAddress.provinceCode' },
+    { header: 'defaultAddress_zip', path: 'defaultAddress.zip' },
+    { header: 'defaultAddress_phone', path: 'defaultAddress.phone' },
+    { header: 'defaultAddress_firstName', path: 'defaultAddress.firstName' },
+    { header: 'defaultAddress_lastName', path: 'defaultAddress.lastName' },
+    { header: 'defaultAddress_company', path: 'defaultAddress.company' },
+    { header: 'lastOrder_id', path: 'lastOrder.id' },
+    { header: 'lastOrder_name', path: 'lastOrder.name' },
+    { header: 'lastOrder_createdAt', path: 'lastOrder.createdAt', type: 'date' },
+    { header: 'productSubscriberStatus', path: 'productSubscriberStatus' },
+    { header: 'isMergeable', path: 'mergeable.isMergeable', transform: 'boolean', default: 'false' },
+    { header: 'originalCreatedDate (metafield: magento.created_at)', path: 'originalCreatedDate.value' },
+    { header: 'allAddresses', path: 'addresses', transform: 'json', default: '[]' },
+    { header: 'lastFiveEvents', path: 'events.nodes', transform: 'json', default: '[]' },
+    { header: 'lastFiveOrders', path: 'orders.nodes', transform: 'json', default: '[]' },
+    { header: 'statistics_predictedSpendTier', path: 'statistics.predictedSpendTier' },
+    { header: 'statistics_rfmGroup', path: 'statistics.rfmGroup' },
+  ],
+};
+
+type ProfilesFile = {
+  profiles: Record<string, Omit<CsvProfile, 'name'>>;
+};
+
+/**
+ * Loads the column profiles from the config file. The file is read on every
+ * call so profile edits apply to the next export without a restart.
+ */
+export function loadCsvProfiles(): Record<string, CsvProfile> {
+  if (!fs.existsSync(PROFILES_PATH)) {
+    return {};
+  }
+
+  const config = JSON.parse(fs.readFileSync(PROFILES_PATH, 'utf8')) as ProfilesFile;
+  const profiles: Record<string, CsvProfile> = {};
+
+  for (const [name, profile] of Object.entries(config.profiles || {})) {
+    if (name === DEFAULT_PROFILE_NAME) {
+      throw new Error(`CSV profile "${DEFAULT_PROFILE_NAME}" is built in and can't be redefined in ${PROFILES_PATH}`);
+    }
+    if (!Array.isArray(profile.columns) || profile.columns.length === 0) {
+      throw new Error(`CSV profile "${name}" in ${PROFILES_PATH} has no columns`);
+    }
+    for (const column of profile.columns) {
+      if (!column.header || !column.path) {
+        throw new Error(`CSV profile "${name}" has a column without a header or path`);
+      }
+    }
+    profiles[name] = { name, ...profile };
+  }
+
+  return profiles;
+}
+
+export function getCsvProfileNames(): string[] {
+  return [DEFAULT_PROFILE_NAME, ...Object.keys(loadCsvProfiles())];
+}
+
+export function getCsvProfile(name: string): CsvProfile {
+  if (name === DEFAULT_PROFILE_NAME) {
+    return DEFAULT_PROFILE;
+  }
+
+  const profile = loadCsvProfiles()[name];
+  if (!profile) {
+    throw new Error(
+      `Unknown CSV profile: ${name}. Available profiles: ${getCsvProfileNames().join(', ')}`
+    );
+  }
+  return profile;
+}
+
+export function formatCsvHeader(columns: CsvColumn[]): string {
+  return columns.map((column) => escapeCSVField(column.header)).join(',');
+}
+
+export function formatCsvRow(customer: CustomerData, columns: CsvColumn[]): string {
+  return columns
+    .map((column) => escapeCSVField(formatColumnValue(getValueAtPath(customer, column.path), column)))
+    .join(',');
+}
+
+/**
+ * Quotes a field when it contains a delimiter, quote or line break. This is
+ * the only place quotes are doubled.
+ */
+export function escapeCSVField(value: string): string {
+  if (
+    value.includes(',') ||
+    value.includes('"') ||
+    value.includes('\n') ||
+    value.includes('\r')
+  ) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Resolves a column path against a customer record
+ */
+export function getValueAtPath(source: any, columnPath: string): any {
+  const segments = columnPath.split('.');
+  let value: any = source;
+
+  for (let i = 0; i < segments.length; i++) {
+    if (value === null || value === undefined) return null;
+
+    const segment = segments[i];
+    if (segment.endsWith('[]')) {
+      const items = value[segment.slice(0, -2)];
+      if (!Array.isArray(items)) return null;
+      const rest = segments.slice(i + 1).join('.');
+      return rest ? items.map((item) => getValueAtPath(item, rest)) : items;
+    }
+
+    value = value[segment];
+  }
+
+  return value === undefined ? null : value;
+}
+
+export function formatColumnValue(value: any, column: CsvColumn): string {
+  if (value === null || value === undefined) {
+    return column.default ?? '';
+  }
+
+  switch (column.transform) {
+    case 'join':
+      return Array.isArray(value)
+        ? value.filter((item) => item !== null && item !== undefined).join(column.separator ?? ', ')
+        : String(value);
+    case 'date':
+      return formatDate(value, column.dateFormat || 'date');
+    case 'boolean':
+      return formatBoolean(value, column.booleanStyle || 'true/false');
+    case 'json':
+      return JSON.stringify(value);
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
+
+function formatDate(value: any, format: NonNullable<CsvColumn['dateFormat']>): string {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return String(value);
+
+  switch (format) {
+    case 'iso':
+      return date.toISOString();
+    case 'datetime':
+      return date.toISOString().replace('T', ' ').slice(0, 19);
+    case 'epoch':
+      return String(Math.floor(date.getTime() / 1000));
+    default:
+      return date.toISOString().slice(0, 10);
+  }
+}
+
+function formatBoolean(value: any, style: NonNullable<CsvColumn['booleanStyle']>): string {
+  const [yes, no] = style.split('/');
+  return value === true || value === 'true' ? yes : no;
+}
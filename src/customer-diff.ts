@@ -0,0 +1,44 @@
+import { CustomerData } from './types';
+
+// Paths that change on every save or only hold rolling windows of recent activity
+const IGNORED_PATHS = ['updatedAt', 'events', 'orders'];
+
+export type FieldChange = {
+  fieldPath: string;
+  oldValue: unknown;
+  newValue: unknown;
+};
+
+/**
+ * Compares two versions of a customer field by field. Objects are walked down
+ * to their leaves (`defaultAddress.city`); arrays such as tags or addresses are
+ * compared as a whole and reported under their own path.
+ */
+export function diffCustomers(previous: CustomerData, next: CustomerData): FieldChange[] {
+  const changes: FieldChange[] = [];
+  diffValues(previous, next, '', changes);
+  return changes;
+}
+
+function diffValues(previous: unknown, next: unknown, fieldPath: string, changes: FieldChange[]) {
+  if (IGNORED_PATHS.includes(fieldPath)) return;
+
+  if (isPlainObject(previous) && isPlainObject(next)) {
+    const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+    for (const key of keys) {
+      diffValues(previous[key], next[key], fieldPath ? `${fieldPath}.${key}` : key, changes);
+    }
+    return;
+  }
+
+  // Missing and null mean the same thing in Shopify's responses
+  const oldValue = previous ?? null;
+  const newValue = next ?? null;
+  if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+    changes.push({ fieldPath, oldValue, newValue });
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
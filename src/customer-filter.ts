@@ -0,0 +1,230 @@
+import { getValueAtPath } from './csv-profiles';
+import { CustomerData } from './types';
+
+type FieldKind = 'text' | 'number' | 'boolean' | 'date' | 'list';
+
+type FilterField = {
+  kind: FieldKind;
+  path: string; // Path into CustomerData, as used by CSV profiles
+  jsonPath?: string; // SQLite JSON path into customers.data; fields without one are evaluated in JS
+};
+
+const FILTER_FIELDS: Record<string, FilterField> = {
+  tag: { kind: 'list', path: 'tags', jsonPath: '$.tags' },
+  numberOfOrders: { kind: 'number', path: 'numberOfOrders', jsonPath: '$.numberOfOrders' },
+  amountSpent: { kind: 'number', path: 'amountSpent.amount', jsonPath: '$.amountSpent.amount' },
+  // Marketing consent is only queried through orders, so the newest order's flag is used
+  acceptsMarketing: {
+    kind: 'boolean',
+    path: 'orders.nodes.0.customerAcceptsMarketing',
+    jsonPath: '$.orders.nodes[0].customerAcceptsMarketing',
+  },
+  country: { kind: 'text', path: 'defaultAddress.countryCodeV2', jsonPath: '$.defaultAddress.countryCodeV2' },
+  province: { kind: 'text', path: 'defaultAddress.provinceCode', jsonPath: '$.defaultAddress.provinceCode' },
+  state: { kind: 'text', path: 'state', jsonPath: '$.state' },
+  locale: { kind: 'text', path: 'locale', jsonPath: '$.locale' },
+  verifiedEmail: { kind: 'boolean', path: 'verifiedEmail', jsonPath: '$.verifiedEmail' },
+  createdAt: { kind: 'date', path: 'createdAt', jsonPath: '$.createdAt' },
+  updatedAt: { kind: 'date', path: 'updatedAt', jsonPath: '$.updatedAt' },
+  lastOrderAt: { kind: 'date', path: 'lastOrder.createdAt', jsonPath: '$.lastOrder.createdAt' },
+};
+
+export const FILTER_FIELD_NAMES = Object.keys(FILTER_FIELDS);
+
+type Operator = ':' | '>' | '>=' | '<' | '<=';
+
+const RANGE_OPERATORS: Operator[] = ['>', '>=', '<', '<='];
+
+type FilterTerm = {
+  field: string;
+  operator: Operator;
+  values: string[]; // Comma-separated values match if any of them does
+  negate: boolean;
+};
+
+export type CustomerFilter = {
+  expression: string;
+  // Terms pushed into SQLite, ANDed together. Null when nothing could be pushed down.
+  where: string | null;
+  params: unknown[];
+  // Evaluates the terms that couldn't be pushed down
+  matches(customer: CustomerData): boolean;
+};
+
+// `-field:value`, `field>=value` or `field:"quoted value",other`, separated by whitespace
+const TERM_PATTERN = /\s*(-?)([A-Za-z]+)(>=|<=|>|<|:|=)((?:"[^"]*"|[^\s"]+)+)\s*/y;
+const VALUE_PATTERN = /"([^"]*)"|[^,"]+/g;
+
+/**
+ * Parses a filter expression such as `tag:VIP numberOfOrders>=3 country:US,CA`.
+ * All terms must match; a leading `-` negates a term.
+ */
+export function parseCustomerFilter(expression: string, options: { pushdown?: boolean } = {}): CustomerFilter {
+  const terms = parseTerms(expression);
+  const pushdown = options.pushdown ?? true;
+
+  const sqlTerms = pushdown ? terms.filter((term) => FILTER_FIELDS[term.field].jsonPath) : [];
+  const jsTerms = terms.filter((term) => !sqlTerms.includes(term));
+
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+  for (const term of sqlTerms) {
+    const clause = termToSql(term, params);
+    clauses.push(term.negate ? `NOT IFNULL((${clause}), 0)` : `(${clause})`);
+  }
+
+  return {
+    expression: expression.trim(),
+    where: clauses.length > 0 ? clauses.join(' AND ') : null,
+    params,
+    matches: (customer) => jsTerms.every((term) => matchesTerm(customer, term) !== term.negate),
+  };
+}
+
+function parseTerms(expression: string): FilterTerm[] {
+  const terms: FilterTerm[] = [];
+  TERM_PATTERN.lastIndex = 0;
+
+  while (TERM_PATTERN.lastIndex < expression.length) {
+    const start = TERM_PATTERN.lastIndex;
+    const match = TERM_PATTERN.exec(expression);
+    if (!match) {
+      if (!expression.slice(start).trim()) break;
+      throw new Error(`Invalid filter near "${expression.slice(start).trim()}"`);
+    }
+
+    const [, negate, field, rawOperator, rawValue] = match;
+    const definition = FILTER_FIELDS[field];
+    if (!definition) {
+      throw new Error(`Unknown filter field: ${field}. Available fields: ${FILTER_FIELD_NAMES.join(', ')}`);
+    }
+
+    const operator = (rawOperator === '=' ? ':' : rawOperator) as Operator;
+    if (RANGE_OPERATORS.includes(operator) && definition.kind !== 'number' && definition.kind !== 'date') {
+      throw new Error(`Filter field ${field} only supports ":"`);
+    }
+
+    const values = Array.from(rawValue.matchAll(VALUE_PATTERN), (match) => match[1] ?? match[0]);
+    if (values.length === 0) {
+      throw new Error(`Filter field ${field} has no value`);
+    }
+    if (values.length > 1 && RANGE_OPERATORS.includes(operator)) {
+      throw new Error(`Filter field ${field} takes a single value with ${operator}`);
+    }
+    for (const item of values) {
+      validateValue(field, definition.kind, item);
+    }
+
+    terms.push({ field, operator, values, negate: negate === '-' });
+  }
+
+  return terms;
+}
+
+function validateValue(field: string, kind: FieldKind, value: string) {
+  if (kind === 'number' && isNaN(Number(value))) {
+    throw new Error(`Filter field ${field} expects a number, got "${value}"`);
+  }
+  if (kind === 'boolean' && parseBoolean(value) === null) {
+    throw new Error(`Filter field ${field} expects true or false, got "${value}"`);
+  }
+  if (kind === 'date' && isNaN(new Date(value).getTime())) {
+    throw new Error(`Filter field ${field} expects a date such as 2024-01-31, got "${value}"`);
+  }
+}
+
+function termToSql(term: FilterTerm, params: unknown[]): string {
+  const { kind, jsonPath } = FILTER_FIELDS[term.field];
+  const column = `json_extract(data, '${jsonPath}')`;
+
+  const anyOf = (toClause: (value: string) => string) => term.values.map(toClause).join(' OR ');
+
+  switch (kind) {
+    case 'list':
+      return anyOf((value) => {
+        params.push(value);
+        return `EXISTS (SELECT 1 FROM json_each(data, '${jsonPath}') WHERE lower(value) = lower(?))`;
+      });
+    case 'text':
+      return anyOf((value) => {
+        params.push(value);
+        return `lower(${column}) = lower(?)`;
+      });
+    case 'boolean':
+      return anyOf((value) => (parseBoolean(value) ? `${column} = 1` : `IFNULL(${column}, 0) = 0`));
+    case 'number':
+      if (term.operator !== ':') {
+        params.push(Number(term.values[0]));
+        return `CAST(${column} AS REAL) ${term.operator} ?`;
+      }
+      return anyOf((value) => {
+        params.push(Number(value));
+        return `CAST(${column} AS REAL) = ?`;
+      });
+    case 'date':
+      if (term.operator !== ':') {
+        params.push(dateBound(term.operator, term.values[0]));
+        return `${column} ${term.operator} ?`;
+      }
+      return anyOf((value) => {
+        params.push(value);
+        return `substr(${column}, 1, ${value.length}) = ?`;
+      });
+  }
+}
+
+function matchesTerm(customer: CustomerData, term: FilterTerm): boolean {
+  const { kind, path } = FILTER_FIELDS[term.field];
+  const value = getValueAtPath(customer, path);
+
+  switch (kind) {
+    case 'list': {
+      const items = Array.isArray(value) ? value.map((item) => String(item).toLowerCase()) : [];
+      return term.values.some((wanted) => items.includes(wanted.toLowerCase()));
+    }
+    case 'text':
+      return value !== null && term.values.some((wanted) => String(value).toLowerCase() === wanted.toLowerCase());
+    case 'boolean':
+      return term.values.some((wanted) => (value === true) === parseBoolean(wanted));
+    case 'number':
+      if (value === null || isNaN(Number(value))) return false;
+      return term.values.some((wanted) => compare(Number(value), term.operator, Number(wanted)));
+    case 'date':
+      if (typeof value !== 'string') return false;
+      if (term.operator === ':') {
+        return term.values.some((wanted) => value.startsWith(wanted));
+      }
+      return compare(value, term.operator, dateBound(term.operator, term.values[0]));
+  }
+}
+
+function compare<T extends number | string>(value: T, operator: Operator, wanted: T): boolean {
+  switch (operator) {
+    case '>':
+      return value > wanted;
+    case '>=':
+      return value >= wanted;
+    case '<':
+      return value < wanted;
+    case '<=':
+      return value <= wanted;
+    default:
+      return value === wanted;
+  }
+}
+
+/**
+ * Dates are stored as ISO strings, so a bare day has to cover the whole day:
+ * `createdAt<=2024-01-31` includes customers created during the 31st.
+ */
+function dateBound(operator: Operator, value: string): string {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  return operator === '<=' || operator === '>' ? `${value}T23:59:59.999Z` : value;
+}
+
+function parseBoolean(value: string): boolean | null {
+  const normalized = value.toLowerCase();
+  if (['true', 'yes', '1'].includes(normalized)) return true;
+  if (['false', 'no', '0'].includes(normalized)) return false;
+  return null;
+}
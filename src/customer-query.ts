@@ -0,0 +1,161 @@
+/**
+ * Customer fields fetched from Shopify, shared by the paginated and bulk
+ * operation queries so both produce the same CustomerData shape.
+ */
+export const CUSTOMER_FIELDS = `
+    id
+    firstName
+    lastName
+    displayName
+    defaultEmailAddress {
+      emailAddress
+    }
+    defaultPhoneNumber {
+      phoneNumber
+    }
+    verifiedEmail
+    state
+    locale
+    note
+    tags
+    createdAt
+    updatedAt
+    amountSpent {
+      amount
+      currencyCode
+    }
+    numberOfOrders
+    lifetimeDuration
+    addresses {
+      address1
+      address2
+      city
+      country
+      countryCodeV2
+      province
+      provinceCode
+      zip
+      phone
+      firstName
+      lastName
+      company
+    }
+    defaultAddress {
+      address1
+      address2
+      city
+      country
+      countryCodeV2
+      province
+      provinceCode
+      zip
+      phone
+      firstName
+      lastName
+      company
+    }
+    lastOrder {
+      id
+      name
+      createdAt
+    }
+    productSubscriberStatus
+    mergeable {
+      isMergeable
+    }
+    originalCreatedDate: metafield(key: "created_at", namespace: "magento") {
+      value
+    }
+    events(first: 5, reverse: true) {
+      nodes {
+        action
+        appTitle
+        message
+      }
+    }
+    orders(first: 5, reverse: true) {
+      nodes {
+        createdAt
+        email
+        id
+        paymentGatewayNames
+        customerAcceptsMarketing
+        customer {
+          displayName
+        }
+        discountCode
+        displayFinancialStatus
+        displayFulfillmentStatus
+        lineItems(first: 20) {
+          nodes {
+            id
+            name
+            quantity
+          }
+        }
+        returns(first: 20) {
+          nodes {
+            id
+            name
+            status
+            totalQuantity
+          }
+        }
+        shippingAddress {
+          address1
+          address2
+          city
+          country
+          countryCodeV2
+          company
+          formattedArea
+        }
+        totalPriceSet {
+          shopMoney {
+            amount
+            currencyCode
+          }
+        }
+      }
+    }
+    statistics {
+      predictedSpendTier
+      rfmGroup
+    }
+`;
+
+export const CUSTOMERS_QUERY = `
+  query getCustomers($first: Int!, $after: String, $query: String) {
+    customers(first: $first, after: $after, query: $query) {
+      edges {
+        cursor
+        node {
+          ${CUSTOMER_FIELDS}
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+`;
+
+/**
+ * Builds the query submitted to bulkOperationRunQuery. Bulk queries don't
+ * accept variables, so the search filter is inlined as a string literal.
+ */
+export function buildBulkCustomersQuery(searchQuery: string | null): string {
+  const args = searchQuery ? `(query: ${JSON.stringify(searchQuery)})` : '';
+  return `
+    {
+      customers${args} {
+        edges {
+          node {
+            ${CUSTOMER_FIELDS}
+          }
+        }
+      }
+    }
+  `;
+}
@@ -0,0 +1,234 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { recordAudit } from './audit';
+import {
+  CustomerRecord,
+  eraseCustomer,
+  getCustomerChanges,
+  getCustomerRecordsById,
+  getExportFileJobsSince,
+  getStaleExportJobs,
+  isEncryptionEnabled,
+  iterateAllCustomers,
+  markExportFilesStale,
+  purgeFreePages,
+} from './database';
+import { AuditActor, CustomerChange, CustomerData, ExportJob } from './types';
+
+// Looks a data subject up by exactly one of these
+export type DataSubjectQuery = {
+  email?: string; // Account email or the email on any of their orders, case-insensitive
+  phone?: string; // Account, address or default address phone, compared by digits only
+  customerId?: string; // Numeric Shopify id or GID
+};
+
+type DataSubjectField = keyof DataSubjectQuery;
+
+const QUERY_FIELDS: DataSubjectField[] = ['email', 'phone', 'customerId'];
+// Shorter numbers would match unrelated customers
+const MIN_PHONE_DIGITS = 6;
+
+export type ExportFile = {
+  jobId: string;
+  storeName: string;
+  filePath: string;
+  generatedAt: string;
+  staleSince: string | null;
+};
+
+export type DataSubjectBundle = {
+  generatedAt: string;
+  query: DataSubjectQuery;
+  customers: Array<{
+    storeName: string;
+    customer: CustomerData; // As last fetched from Shopify; the relational tables are derived from it
+    changes: CustomerChange[]; // Newest first
+  }>;
+  exportFiles: ExportFile[]; // Files written since the customer was created, which may contain them
+};
+
+export type ErasureResult = {
+  erased: Array<{ storeName: string; customerId: string; rowsDeleted: number }>;
+  staleFiles: ExportFile[]; // Files flagged for regeneration because they may still contain an erased customer
+  purgePending: boolean; // The erasure is committed, but the vacuum has to be retried with purgeErasedData()
+};
+
+/**
+ * Validates a lookup from request input. Throws unless exactly one field is given.
+ */
+export function parseDataSubjectQuery(input: Record<string, unknown>): DataSubjectQuery {
+  const given = QUERY_FIELDS.filter((field) => input[field] !== undefined && input[field] !== '');
+  if (given.length !== 1) {
+    throw new Error(`Give exactly one of: ${QUERY_FIELDS.join(', ')}`);
+  }
+
+  const field = given[0];
+  const value = input[field];
+  if (typeof value !== 'string') {
+    throw new Error(`${field} must be a string`);
+  }
+  if (field === 'phone' && normalizePhone(value).length < MIN_PHONE_DIGITS) {
+    throw new Error(`phone must have at least ${MIN_PHONE_DIGITS} digits`);
+  }
+  return { [field]: value.trim() };
+}
+
+/**
+ * Every stored customer matching the query, across all stores and including
+ * customers marked deleted
+ */
+export function findDataSubject(query: DataSubjectQuery): CustomerRecord[] {
+  if (query.customerId) {
+    return getCustomerRecordsById(query.customerId);
+  }
+
+  if (query.email) {
+    const email = normalizeEmail(query.email);
+    // Plain-text rows are narrowed in SQL first; encrypted ones are decrypted and checked one by one
+    const dataLike = isEncryptionEnabled() ? undefined : `%${email.replace(/[\\%_]/g, '\\$&')}%`;
+    return collect(iterateAllCustomers(dataLike), (customer) => customerEmails(customer).includes(email));
+  }
+
+  // Phone numbers are stored in many formats, so every customer is checked
+  const phone = normalizePhone(query.phone || '');
+  return collect(iterateAllCustomers(), (customer) => customerPhones(customer).includes(phone));
+}
+
+/**
+ * Everything held about the matching customers, for a subject access request.
+ * Recorded in the audit log by customer id, never by the email or phone searched for.
+ */
+export function exportDataSubject(query: DataSubjectQuery, actor: AuditActor): DataSubjectBundle {
+  const records = findDataSubject(query);
+
+  for (const { storeName, customer } of records) {
+    recordAudit(actor, 'subject.export', { storeName, details: { customerId: customer.id, matchedBy: queryField(query) } });
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    query,
+    customers: records.map(({ storeName, customer }) => ({
+      storeName,
+      customer,
+      changes: getCustomerChanges(customer.id, { limit: -1 }), // A negative LIMIT returns every row
+    })),
+    exportFiles: uniqueFiles(records.flatMap(exportFilesContaining)),
+  };
+}
+
+/**
+ * Deletes the matching customers with their relational rows and change
+ * history, and flags export files that may still contain them. The database
+ * is vacuumed afterwards so no copy remains in the file; if that can't finish
+ * yet, the result says so with purgePending. The audit log keeps a record of
+ * each erasure by customer id.
+ */
+export function eraseDataSubject(query: DataSubjectQuery, actor: AuditActor): ErasureResult {
+  const records = findDataSubject(query);
+  const now = new Date().toISOString();
+  const result: ErasureResult = { erased: [], staleFiles: [], purgePending: false };
+
+  for (const record of records) {
+    const { storeName, customer } = record;
+    const files = exportFilesContaining(record);
+
+    const rowsDeleted = eraseCustomer(customer.id);
+    markExportFilesStale(files.map((file) => file.jobId), now);
+    recordAudit(actor, 'subject.erase', {
+      storeName,
+      details: { customerId: customer.id, matchedBy: queryField(query), rowsDeleted, staleFiles: files.length },
+    });
+
+    result.erased.push({ storeName, customerId: customer.id, rowsDeleted });
+    result.staleFiles.push(...files.map((file) => ({ ...file, staleSince: file.staleSince || now })));
+  }
+
+  if (records.length > 0) {
+    result.purgePending = !purgeErasedData();
+  }
+  result.staleFiles = uniqueFiles(result.staleFiles);
+  return result;
+}
+
+/**
+ * Vacuums away what erasures left in free pages and the WAL. Returns false
+ * while another connection is in the way, e.g. an export reading customers.
+ */
+export function purgeErasedData(): boolean {
+  try {
+    if (purgeFreePages()) return true;
+    console.warn('Database still in use by a reader, erased data stays in the file until the purge is retried');
+  } catch (error) {
+    console.warn(`Could not vacuum the database after an erasure: ${error instanceof Error ? error.message : error}`);
+  }
+  return false;
+}
+
+/**
+ * Export files flagged by an erasure that are still on disk. Regenerating a
+ * file and deleting the old one takes it off this list.
+ */
+export function getStaleExportFiles(): ExportFile[] {
+  return getStaleExportJobs().map(toExportFile).filter(fileExists);
+}
+
+// A file can only contain customers that existed when it was written. Filters aren't
+// taken into account: the customer may have matched at the time.
+function exportFilesContaining({ storeName, customer }: CustomerRecord): ExportFile[] {
+  return getExportFileJobsSince(storeName, customer.createdAt || '').map(toExportFile).filter(fileExists);
+}
+
+function toExportFile(job: ExportJob): ExportFile {
+  return {
+    jobId: job.id,
+    storeName: job.storeName,
+    filePath: job.csvFilePath!,
+    generatedAt: job.completedAt || job.startedAt,
+    staleSince: job.staleSince || null,
+  };
+}
+
+function fileExists(file: ExportFile): boolean {
+  return fs.existsSync(path.resolve(file.filePath));
+}
+
+function uniqueFiles(files: ExportFile[]): ExportFile[] {
+  return [...new Map(files.map((file) => [file.jobId, file])).values()];
+}
+
+function collect(records: Iterable<CustomerRecord>, matches: (customer: CustomerData) => boolean): CustomerRecord[] {
+  const found: CustomerRecord[] = [];
+  for (const record of records) {
+    if (matches(record.customer)) {
+      found.push(record);
+    }
+  }
+  return found;
+}
+
+function queryField(query: DataSubjectQuery): DataSubjectField {
+  return QUERY_FIELDS.find((field) => query[field])!;
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function normalizePhone(phone: string): string {
+  return phone.replace(/\D/g, '');
+}
+
+function customerEmails(customer: CustomerData): string[] {
+  const emails = [customer.defaultEmailAddress?.emailAddress, ...(customer.orders?.nodes || []).map((order) => order.email)];
+  return emails.filter((email): email is string => !!email).map(normalizeEmail);
+}
+
+function customerPhones(customer: CustomerData): string[] {
+  const phones = [
+    customer.defaultPhoneNumber?.phoneNumber,
+    customer.defaultAddress?.phone,
+    ...(customer.addresses || []).map((address) => address.phone),
+  ];
+  return phones.filter((phone): phone is string => !!phone).map(normalizePhone);
+}
@@ -1,7 +1,35 @@
 import Database from 'better-sqlite3';
+import * as crypto from 'crypto';
 import * as path from 'path';
 import * as fs from 'fs';
-import { CustomerData, ExportJob, ExportStatus } from './types';
+import {
+  ApiKey,
+  ApiKeyScope,
+  AuditAction,
+  AuditActorType,
+  AuditEntry,
+  CustomerChange,
+  CustomerData,
+  DownloadLink,
+  ExportJob,
+  ExportMode,
+  ExportStatus,
+  FetchStrategy,
+  JobChangeSummary,
+  JobControlRequest,
+  JobOptions,
+  Schedule,
+  ScheduleAction,
+  ScheduleOptions,
+  ScheduleRun,
+  ScheduleRunStatus,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+} from './types';
+import { diffCustomers } from './customer-diff';
+import { decrypt, encrypt, generateDataKey, loadMasterKey } from './encryption';
 
 const DB_PATH = process.env.DATABASE_PATH || path.join(__dirname, '../data/customers.db');
 
@@ -16,86 +44,977 @@ const db = new Database(DB_PATH);
 // Enable WAL mode for better concurrent access
 db.pragma('journal_mode = WAL');
 
-// Initialize database schema
-export function initializeDatabase() {
-  // Create customers table
+type Migration = {
+  version: number;
+  name: string;
+  up: () => void;
+};
+
+/**
+ * Schema changes, applied in order. Never edit a released migration; add a new
+ * one instead. Steps are idempotent (IF NOT EXISTS, ensureColumn) because
+ * databases created before schema_migrations existed replay every migration.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create customers and export_jobs',
+    up: () => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS customers (
+          id TEXT PRIMARY KEY,
+          store_name TEXT NOT NULL,
+          data TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_customers_store ON customers(store_name);
+        CREATE INDEX IF NOT EXISTS idx_customers_updated ON customers(updated_at);
+
+        CREATE TABLE IF NOT EXISTS export_jobs (
+          id TEXT PRIMARY KEY,
+          store_name TEXT NOT NULL,
+          status TEXT NOT NULL,
+          total_customers INTEGER DEFAULT 0,
+          processed_customers INTEGER DEFAULT 0,
+          started_at TEXT NOT NULL,
+          completed_at TEXT,
+          error TEXT,
+          csv_file_path TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_jobs_store ON export_jobs(store_name);
+        CREATE INDEX IF NOT EXISTS idx_jobs_status ON export_jobs(status);
+        CREATE INDEX IF NOT EXISTS idx_jobs_started ON export_jobs(started_at);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'add resume cursor to export_jobs',
+    up: () => {
+      ensureColumn('export_jobs', 'last_cursor', 'TEXT');
+    },
+  },
+  {
+    version: 3,
+    name: 'add incremental sync columns',
+    up: () => {
+      ensureColumn('export_jobs', 'mode', "TEXT NOT NULL DEFAULT 'full'");
+      ensureColumn('export_jobs', 'updated_since', 'TEXT');
+      ensureColumn('export_jobs', 'high_water_mark', 'TEXT');
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_customers_store_updated ON customers(store_name, updated_at)`);
+    },
+  },
+  {
+    version: 4,
+    name: 'add bulk operation columns',
+    up: () => {
+      ensureColumn('export_jobs', 'fetch_strategy', "TEXT NOT NULL DEFAULT 'paginated'");
+      ensureColumn('export_jobs', 'bulk_operation_id', 'TEXT');
+      ensureColumn('export_jobs', 'bulk_operation_status', 'TEXT');
+      ensureColumn('export_jobs', 'bulk_object_count', 'INTEGER');
+    },
+  },
+  {
+    version: 5,
+    name: 'add throttle statistics',
+    up: () => {
+      ensureColumn('export_jobs', 'throttle_wait_ms', 'INTEGER DEFAULT 0');
+      ensureColumn('export_jobs', 'throttled_count', 'INTEGER DEFAULT 0');
+    },
+  },
+  {
+    version: 6,
+    name: 'add export filter',
+    up: () => {
+      ensureColumn('export_jobs', 'filter', 'TEXT');
+    },
+  },
+  {
+    version: 7,
+    name: 'create relational customer tables',
+    up: () => {
+      createRelationalTables();
+      backfillRelationalTables();
+    },
+  },
+  {
+    version: 8,
+    name: 'create customer change history',
+    up: () => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS customer_changes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          customer_id TEXT NOT NULL,
+          store_name TEXT NOT NULL,
+          job_id TEXT,
+          field_path TEXT NOT NULL,
+          old_value TEXT,
+          new_value TEXT,
+          changed_at TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_changes_customer ON customer_changes(customer_id, changed_at);
+        CREATE INDEX IF NOT EXISTS idx_changes_job ON customer_changes(job_id);
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: 'track customers deleted in Shopify',
+    up: () => {
+      ensureColumn('customers', 'deleted_at', 'TEXT');
+      ensureColumn('customers', 'last_seen_job_id', 'TEXT');
+      ensureColumn('export_jobs', 'deleted_customers', 'INTEGER DEFAULT 0');
+    },
+  },
+  {
+    version: 10,
+    name: 'add job queue leases',
+    up: () => {
+      ensureColumn('export_jobs', 'job_options', 'TEXT');
+      ensureColumn('export_jobs', 'lease_owner', 'TEXT');
+      ensureColumn('export_jobs', 'lease_expires_at', 'TEXT');
+      ensureColumn('export_jobs', 'heartbeat_at', 'TEXT');
+      ensureColumn('export_jobs', 'attempts', 'INTEGER DEFAULT 0');
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_jobs_queue ON export_jobs(status, started_at)`);
+    },
+  },
+  {
+    version: 11,
+    name: 'add job cancel and pause requests',
+    up: () => {
+      ensureColumn('export_jobs', 'control_request', 'TEXT');
+    },
+  },
+  {
+    version: 12,
+    name: 'create schedules and schedule_runs',
+    up: () => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS schedules (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          store_name TEXT NOT NULL,
+          cron TEXT NOT NULL,
+          action TEXT NOT NULL,
+          options TEXT NOT NULL,
+          enabled INTEGER NOT NULL DEFAULT 1,
+          next_run_at TEXT,
+          last_run_at TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_schedules_due ON schedules(enabled, next_run_at);
+
+        CREATE TABLE IF NOT EXISTS schedule_runs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          schedule_id INTEGER NOT NULL,
+          scheduled_for TEXT NOT NULL,
+          ran_at TEXT NOT NULL,
+          status TEXT NOT NULL,
+          job_id TEXT,
+          message TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_schedule_runs_schedule ON schedule_runs(schedule_id, id);
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: 'create webhooks and webhook_deliveries',
+    up: () => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS webhooks (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          store_name TEXT,
+          url TEXT NOT NULL,
+          secret TEXT NOT NULL,
+          events TEXT NOT NULL,
+          enabled INTEGER NOT NULL DEFAULT 1,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS webhook_deliveries (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          webhook_id INTEGER NOT NULL,
+          event TEXT NOT NULL,
+          job_id TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          status TEXT NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at TEXT,
+          last_attempt_at TEXT,
+          response_status INTEGER,
+          error TEXT,
+          created_at TEXT NOT NULL,
+          delivered_at TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+        CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, id);
+      `);
+    },
+  },
+  {
+    version: 14,
+    name: 'create api_keys',
+    up: () => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS api_keys (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          key_hash TEXT NOT NULL UNIQUE,
+          prefix TEXT NOT NULL,
+          scopes TEXT NOT NULL,
+          store_names TEXT,
+          created_at TEXT NOT NULL,
+          last_used_at TEXT,
+          revoked_at TEXT
+        );
+      `);
+    },
+  },
+  {
+    version: 15,
+    name: 'create append-only audit_log',
+    up: () => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS audit_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          at TEXT NOT NULL,
+          action TEXT NOT NULL,
+          actor_type TEXT NOT NULL,
+          actor TEXT NOT NULL,
+          api_key_id INTEGER,
+          client_ip TEXT,
+          store_name TEXT NOT NULL,
+          job_id TEXT,
+          file_path TEXT,
+          details TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_audit_log_store ON audit_log(store_name, at);
+        CREATE INDEX IF NOT EXISTS idx_audit_log_job ON audit_log(job_id);
+
+        -- Entries can be added but never changed or removed
+        CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log
+        BEGIN
+          SELECT RAISE(ABORT, 'audit_log is append-only');
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log
+        BEGIN
+          SELECT RAISE(ABORT, 'audit_log is append-only');
+        END;
+      `);
+    },
+  },
+  {
+    version: 16,
+    name: 'create encryption_keys',
+    up: () => {
+      // Data keys, each encrypted with the master key; the newest encrypts new values
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS encryption_keys (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          wrapped_key TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 17,
+    name: 'flag export files affected by erasures',
+    up: () => {
+      ensureColumn('export_jobs', 'stale_since', 'TEXT');
+    },
+  },
+  {
+    version: 18,
+    name: 'add masking policy to export_jobs',
+    up: () => {
+      ensureColumn('export_jobs', 'masking', 'TEXT');
+    },
+  },
+  {
+    version: 19,
+    name: 'record deleted export files on export_jobs',
+    up: () => {
+      ensureColumn('export_jobs', 'file_deleted_at', 'TEXT');
+      ensureColumn('export_jobs', 'file_deleted_reason', 'TEXT');
+    },
+  },
+  {
+    version: 20,
+    name: 'create download_links',
+    up: () => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS download_links (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          job_id TEXT NOT NULL,
+          label TEXT,
+          expires_at TEXT NOT NULL,
+          single_use INTEGER NOT NULL DEFAULT 0,
+          created_by TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          download_count INTEGER NOT NULL DEFAULT 0,
+          last_download_at TEXT,
+          revoked_at TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_download_links_job ON download_links(job_id);
+      `);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Brings the schema up to date. Each pending migration runs in its own
+ * transaction and is recorded in schema_migrations. With targetVersion it
+ * stops after that migration, leaving the schema as the release that shipped
+ * it did (e.g. for upgrade tests). Throws, without changing anything, when the
+ * database was migrated by a newer version of the code.
+ */
+export function initializeDatabase(options: { targetVersion?: number } = {}) {
   db.exec(`
-    CREATE TABLE IF NOT EXISTS customers (
-      id TEXT PRIMARY KEY,
-      store_name TEXT NOT NULL,
-      data TEXT NOT NULL,
-      created_at TEXT NOT NULL,
-      updated_at TEXT NOT NULL
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
     )
   `);
 
-  // Create indexes
-  db.exec(`
-    CREATE INDEX IF NOT EXISTS idx_customers_store ON customers(store_name);
-    CREATE INDEX IF NOT EXISTS idx_customers_updated ON customers(updated_at);
-  `);
+  const record = db.prepare(`INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)`);
+
+  const migrations = pendingMigrations().filter(
+    (migration) => options.targetVersion === undefined || migration.version <= options.targetVersion
+  );
+  for (const migration of migrations) {
+    const apply = db.transaction(() => {
+      migration.up();
+      record.run(migration.version, migration.name, new Date().toISOString());
+    });
+    apply();
+    console.log(`✓ Applied migration ${migration.version}: ${migration.name}`);
+  }
+
+  if (getKeyring()) {
+    console.log(`✓ Customer data encryption enabled`);
+  }
+  console.log(`✓ Database initialized (schema version ${getSchemaVersion()})`);
+}
+
+/**
+ * Highest applied migration version; 0 for a new database or one created
+ * before schema_migrations existed
+ */
+export function getSchemaVersion(): number {
+  if (!tableExists('schema_migrations')) return 0;
+  const row = db.prepare(`SELECT MAX(version) as version FROM schema_migrations`).get() as { version: number | null };
+  return row.version ?? 0;
+}
+
+/**
+ * Migrations that initializeDatabase would apply, without applying them
+ */
+export function getPendingMigrations(): Array<{ version: number; name: string }> {
+  return pendingMigrations().map(({ version, name }) => ({ version, name }));
+}
+
+function pendingMigrations(): Migration[] {
+  const current = getSchemaVersion();
+  if (current > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema version ${current} is newer than this build supports (${LATEST_SCHEMA_VERSION}). ` +
+        `Upgrade the service before using ${DB_PATH}.`
+    );
+  }
+
+  return MIGRATIONS.filter((migration) => migration.version > current);
+}
 
-  // Create export_jobs table
+/**
+ * Normalized copies of the nested parts of each customer's JSON, for querying
+ * with plain SQL. They are rewritten alongside the customer in saveCustomers;
+ * the JSON in customers.data stays the source of truth for exports.
+ */
+function createRelationalTables() {
   db.exec(`
-    CREATE TABLE IF NOT EXISTS export_jobs (
+    CREATE TABLE IF NOT EXISTS customer_addresses (
+      customer_id TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      is_default INTEGER NOT NULL DEFAULT 0,
+      first_name TEXT,
+      last_name TEXT,
+      company TEXT,
+      address1 TEXT,
+      address2 TEXT,
+      city TEXT,
+      province TEXT,
+      province_code TEXT,
+      country TEXT,
+      country_code TEXT,
+      zip TEXT,
+      phone TEXT,
+      PRIMARY KEY (customer_id, position)
+    );
+
+    CREATE TABLE IF NOT EXISTS customer_orders (
       id TEXT PRIMARY KEY,
-      store_name TEXT NOT NULL,
-      status TEXT NOT NULL,
-      total_customers INTEGER DEFAULT 0,
-      processed_customers INTEGER DEFAULT 0,
-      started_at TEXT NOT NULL,
-      completed_at TEXT,
-      error TEXT,
-      csv_file_path TEXT,
-      last_cursor TEXT
-    )
+      customer_id TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      email TEXT,
+      customer_accepts_marketing INTEGER,
+      discount_code TEXT,
+      financial_status TEXT,
+      fulfillment_status TEXT,
+      total_amount REAL,
+      currency_code TEXT,
+      payment_gateways TEXT,
+      shipping_city TEXT,
+      shipping_country_code TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS order_line_items (
+      id TEXT PRIMARY KEY,
+      order_id TEXT NOT NULL,
+      customer_id TEXT NOT NULL,
+      name TEXT,
+      quantity INTEGER
+    );
+
+    CREATE TABLE IF NOT EXISTS order_returns (
+      id TEXT PRIMARY KEY,
+      order_id TEXT NOT NULL,
+      customer_id TEXT NOT NULL,
+      name TEXT,
+      status TEXT,
+      total_quantity INTEGER
+    );
+
+    CREATE TABLE IF NOT EXISTS customer_tags (
+      customer_id TEXT NOT NULL,
+      tag TEXT NOT NULL,
+      PRIMARY KEY (customer_id, tag)
+    );
+
+    CREATE TABLE IF NOT EXISTS customer_events (
+      customer_id TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      action TEXT,
+      app_title TEXT,
+      message TEXT,
+      PRIMARY KEY (customer_id, position)
+    );
   `);
 
-  // Create indexes for export jobs
   db.exec(`
-    CREATE INDEX IF NOT EXISTS idx_jobs_store ON export_jobs(store_name);
-    CREATE INDEX IF NOT EXISTS idx_jobs_status ON export_jobs(status);
-    CREATE INDEX IF NOT EXISTS idx_jobs_started ON export_jobs(started_at);
+    CREATE INDEX IF NOT EXISTS idx_addresses_country ON customer_addresses(country_code, province_code);
+    CREATE INDEX IF NOT EXISTS idx_orders_customer ON customer_orders(customer_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_orders_created ON customer_orders(created_at);
+    CREATE INDEX IF NOT EXISTS idx_line_items_order ON order_line_items(order_id);
+    CREATE INDEX IF NOT EXISTS idx_line_items_customer ON order_line_items(customer_id);
+    CREATE INDEX IF NOT EXISTS idx_returns_order ON order_returns(order_id);
+    CREATE INDEX IF NOT EXISTS idx_returns_customer ON order_returns(customer_id);
+    CREATE INDEX IF NOT EXISTS idx_tags_tag ON customer_tags(tag);
   `);
+}
+
+// Reads customers in rowid pages, since a connection can't write while a statement iterates
+function backfillRelationalTables() {
+  const page = db.prepare(`SELECT rowid, data FROM customers WHERE rowid > ? ORDER BY rowid LIMIT 1000`);
+  const relations = prepareRelationStatements();
+
+  let lastRowId = 0;
+  let backfilled = 0;
+  while (true) {
+    const rows = page.all(lastRowId) as Array<{ rowid: number; data: string }>;
+    if (rows.length === 0) break;
 
-  console.log('✓ Database initialized');
+    for (const row of rows) {
+      relations.replace(JSON.parse(openValue(row.data)));
+    }
+    lastRowId = rows[rows.length - 1].rowid;
+    backfilled += rows.length;
+  }
+
+  if (backfilled > 0) {
+    console.log(`✓ Backfilled relational tables for ${backfilled} customers`);
+  }
+}
+
+function tableExists(table: string): boolean {
+  const row = db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`).get(table);
+  return row !== undefined;
+}
+
+function ensureColumn(table: string, column: string, definition: string) {
+  const columns = db.pragma(`table_info(${table})`) as Array<{ name: string }>;
+  if (!columns.some(col => col.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+// Encryption at rest
+
+// Columns holding customer PII. Country and province codes, tags and order
+// amounts stay readable so the relational tables can still be queried.
+const ENCRYPTED_COLUMNS: Record<string, string[]> = {
+  customers: ['data'],
+  customer_changes: ['old_value', 'new_value'],
+  customer_addresses: ['first_name', 'last_name', 'company', 'address1', 'address2', 'city', 'zip', 'phone'],
+  customer_orders: ['email', 'shipping_city'],
+  customer_events: ['message'],
+};
+
+// `enc:v1:<data key id>:<base64 of IV, auth tag and ciphertext>`
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const REENCRYPT_PAGE_SIZE = 500;
+
+type Keyring = {
+  keys: Map<number, Buffer>;
+  activeId: number;
+};
+
+// Loaded by initializeDatabase; null when no master key is configured
+let keyring: Keyring | null | undefined;
+
+function getKeyring(): Keyring | null {
+  if (keyring === undefined) {
+    // Migrations before encryption_keys existed write plaintext, which rotateEncryptionKey encrypts later
+    if (!tableExists('encryption_keys')) return null;
+    // Creating the first data key inside a transaction that rolls back would lose it
+    if (db.inTransaction) {
+      throw new Error('Encryption keys must be loaded before a transaction starts; call initializeDatabase first');
+    }
+    keyring = loadKeyring(loadMasterKey());
+  }
+  return keyring;
+}
+
+/**
+ * Unwraps the stored data keys with the master key, creating the first one
+ * when there are none. Throws when the master key doesn't match.
+ */
+function loadKeyring(masterKey: Buffer | null): Keyring | null {
+  if (!masterKey) return null;
+
+  // Overwrite deleted content with zeros, so replaced plaintext doesn't linger in free pages
+  db.pragma('secure_delete = ON');
+
+  let rows = db.prepare(`SELECT id, wrapped_key FROM encryption_keys ORDER BY id`).all() as Array<{ id: number; wrapped_key: string }>;
+  if (rows.length === 0) {
+    insertDataKey(masterKey, generateDataKey());
+    rows = db.prepare(`SELECT id, wrapped_key FROM encryption_keys ORDER BY id`).all() as typeof rows;
+  }
+
+  const keys = new Map<number, Buffer>();
+  for (const row of rows) {
+    try {
+      keys.set(row.id, decrypt(masterKey, Buffer.from(row.wrapped_key, 'base64')));
+    } catch {
+      throw new Error('The configured encryption key does not match the key this database was encrypted with');
+    }
+  }
+  return { keys, activeId: rows[rows.length - 1].id };
+}
+
+function insertDataKey(masterKey: Buffer, dataKey: Buffer): number {
+  const result = db.prepare(`INSERT INTO encryption_keys (wrapped_key, created_at) VALUES (?, ?)`).run(
+    encrypt(masterKey, dataKey).toString('base64'),
+    new Date().toISOString()
+  );
+  return Number(result.lastInsertRowid);
+}
+
+/**
+ * Whether customer data is encrypted when written. Filters can't be pushed
+ * into SQL then, since json_extract can't see into encrypted rows.
+ */
+export function isEncryptionEnabled(): boolean {
+  return getKeyring() !== null;
+}
+
+// Encrypts a value for storage when encryption is on; leaves it as is otherwise
+function sealValue(value: string | null | undefined): string | null {
+  const ring = getKeyring();
+  if (value === null || value === undefined || !ring) return value ?? null;
+  const sealed = encrypt(ring.keys.get(ring.activeId)!, value).toString('base64');
+  return `${ENCRYPTED_PREFIX}${ring.activeId}:${sealed}`;
+}
+
+// Decrypts a stored value; plaintext from before encryption was enabled passes through
+function openValue(value: string): string;
+function openValue(value: string | null): string | null;
+function openValue(value: string | null): string | null {
+  if (value === null || !value.startsWith(ENCRYPTED_PREFIX)) return value;
+
+  const ring = getKeyring();
+  if (!ring) {
+    throw new Error('Customer data is encrypted; set DATA_ENCRYPTION_KEY or DATA_ENCRYPTION_KEY_FILE to read it');
+  }
+  const separator = value.indexOf(':', ENCRYPTED_PREFIX.length);
+  const keyId = Number(value.slice(ENCRYPTED_PREFIX.length, separator));
+  const key = ring.keys.get(keyId);
+  if (!key) {
+    throw new Error(`Customer data was encrypted with data key ${keyId}, which no longer exists`);
+  }
+  return decrypt(key, Buffer.from(value.slice(separator + 1), 'base64')).toString('utf8');
+}
+
+/**
+ * Encrypts every PII value with a new data key, including plaintext written
+ * before encryption was enabled, then drops data keys nothing uses anymore and
+ * vacuums so old values don't survive in free pages. With newMasterKey the data
+ * keys are re-wrapped under it first, so only the new master key is needed
+ * afterwards. Interrupted rotations can simply be run again. Run it while no
+ * server or worker is writing, since they keep encrypting with the data key
+ * they loaded.
+ */
+export function rotateEncryptionKey(options: { newMasterKey?: Buffer } = {}): { values: number; removedKeys: number } {
+  const masterKey = loadMasterKey();
+  const ring = getKeyring();
+  if (!masterKey || !ring) {
+    throw new Error('Encryption is not enabled; set DATA_ENCRYPTION_KEY or DATA_ENCRYPTION_KEY_FILE first');
+  }
+
+  const targetMasterKey = options.newMasterKey || masterKey;
+  const dataKey = generateDataKey();
+  const rewrap = db.prepare(`UPDATE encryption_keys SET wrapped_key = ? WHERE id = ?`);
+  const activeId = db.transaction(() => {
+    for (const [id, key] of ring.keys) {
+      rewrap.run(encrypt(targetMasterKey, key).toString('base64'), id);
+    }
+    return insertDataKey(targetMasterKey, dataKey);
+  }).immediate();
+  keyring = { keys: new Map([...ring.keys, [activeId, dataKey]]), activeId };
+
+  let values = 0;
+  for (const [table, columns] of Object.entries(ENCRYPTED_COLUMNS)) {
+    values += reencryptTable(table, columns, activeId);
+  }
+
+  // Keys still referenced were used by a writer that didn't know about the new key
+  let removedKeys = 0;
+  for (const id of ring.keys.keys()) {
+    if (!isDataKeyInUse(id)) {
+      db.prepare(`DELETE FROM encryption_keys WHERE id = ?`).run(id);
+      keyring.keys.delete(id);
+      removedKeys++;
+    }
+  }
+
+  purgeFreePages();
+  return { values, removedKeys };
+}
+
+/**
+ * Rebuilds the database file and truncates the WAL, so deleted or replaced
+ * values no longer linger in free pages, unused space within pages or the log.
+ * Returns false when a reader on another connection, e.g. an export, kept the
+ * checkpoint from finishing: the old pages are then still in the file.
+ */
+export function purgeFreePages(): boolean {
+  db.exec('VACUUM');
+  const [checkpoint] = db.pragma('wal_checkpoint(TRUNCATE)') as Array<{ busy: number }>;
+  return checkpoint.busy === 0;
+}
+
+// Pages through the table by rowid, since a connection can't write while a statement iterates
+function reencryptTable(table: string, columns: string[], activeId: number): number {
+  const activePrefix = `${ENCRYPTED_PREFIX}${activeId}:`;
+  const page = db.prepare(`SELECT rowid, ${columns.join(', ')} FROM ${table} WHERE rowid > ? ORDER BY rowid LIMIT ?`);
+  const update = db.prepare(`UPDATE ${table} SET ${columns.map((column) => `${column} = ?`).join(', ')} WHERE rowid = ?`);
+
+  let lastRowId = 0;
+  let updated = 0;
+  while (true) {
+    const rows = page.all(lastRowId, REENCRYPT_PAGE_SIZE) as Array<Record<string, any>>;
+    if (rows.length === 0) break;
+
+    db.transaction(() => {
+      for (const row of rows) {
+        // Values already under the new key are left alone, so a rerun picks up where it stopped
+        const stale = (value: string | null) => value !== null && !value.startsWith(activePrefix);
+        const current = columns.map((column) => row[column] as string | null);
+        if (!current.some(stale)) continue;
+
+        update.run(...current.map((value) => (stale(value) ? sealValue(openValue(value)) : value)), row.rowid);
+        updated += current.filter(stale).length;
+      }
+    })();
+    lastRowId = rows[rows.length - 1].rowid;
+  }
+
+  return updated;
+}
+
+function isDataKeyInUse(id: number): boolean {
+  const pattern = `${ENCRYPTED_PREFIX}${id}:%`;
+  return Object.entries(ENCRYPTED_COLUMNS).some(([table, columns]) =>
+    columns.some((column) => db.prepare(`SELECT 1 FROM ${table} WHERE ${column} LIKE ? LIMIT 1`).get(pattern) !== undefined)
+  );
 }
 
 // Customer operations
-export function saveCustomers(storeName: string, customers: CustomerData[]) {
+
+/**
+ * Upserts customers. Field-level differences from the stored record are
+ * appended to customer_changes under the given job; new customers have no
+ * previous record and are not diffed. Only full jobs pass markSeen: a sync
+ * in between the batches of a paused or failed full job would otherwise take
+ * over customers that job already saw, and its resumed run would delete them.
+ */
+export function saveCustomers(
+  storeName: string,
+  customers: CustomerData[],
+  jobId?: string,
+  options: { markSeen?: boolean } = {}
+) {
+  // Saving revives the customer if it had been marked deleted
   const insert = db.prepare(`
-    INSERT OR REPLACE INTO customers (id, store_name, data, created_at, updated_at)
-    VALUES (?, ?, ?, ?, ?)
+    INSERT OR REPLACE INTO customers (id, store_name, data, created_at, updated_at, last_seen_job_id, deleted_at)
+    VALUES (?, ?, ?, ?, ?, ?, NULL)
+  `);
+  const selectPrevious = db.prepare(`SELECT data, deleted_at, last_seen_job_id FROM customers WHERE id = ?`);
+  const insertChange = db.prepare(`
+    INSERT INTO customer_changes (customer_id, store_name, job_id, field_path, old_value, new_value, changed_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
   `);
 
+  const relations = prepareRelationStatements();
+
   const insertMany = db.transaction((customersData: CustomerData[]) => {
     const now = new Date().toISOString();
     for (const customer of customersData) {
+      const previous = selectPrevious.get(customer.id) as
+        | { data: string; deleted_at: string | null; last_seen_job_id: string | null }
+        | undefined;
+      if (previous) {
+        const changes = diffCustomers(JSON.parse(openValue(previous.data)), customer);
+        if (previous.deleted_at) {
+          changes.push({ fieldPath: 'deletedAt', oldValue: previous.deleted_at, newValue: null });
+        }
+
+        for (const change of changes) {
+          insertChange.run(
+            customer.id,
+            storeName,
+            jobId ?? null,
+            change.fieldPath,
+            sealValue(JSON.stringify(change.oldValue)),
+            sealValue(JSON.stringify(change.newValue)),
+            now
+          );
+        }
+      }
+
       insert.run(
         customer.id,
         storeName,
-        JSON.stringify(customer),
+        sealValue(JSON.stringify(customer)),
         customer.createdAt || now,
-        now
+        now,
+        options.markSeen ? jobId ?? null : previous?.last_seen_job_id ?? null
       );
+      relations.replace(customer);
     }
   });
 
   insertMany(customers);
 }
 
+/**
+ * Soft-deletes a store's customers that a completed full job didn't see,
+ * recording a deletedAt change for each. Returns the number marked deleted.
+ */
+export function markUnseenCustomersDeleted(storeName: string, jobId: string): number {
+  const now = new Date().toISOString();
+  const unseen = `store_name = ? AND deleted_at IS NULL AND (last_seen_job_id IS NULL OR last_seen_job_id != ?)`;
+
+  const recordChanges = db.prepare(`
+    INSERT INTO customer_changes (customer_id, store_name, job_id, field_path, old_value, new_value, changed_at)
+    SELECT id, store_name, ?, 'deletedAt', 'null', ?, ? FROM customers WHERE ${unseen}
+  `);
+  const markDeleted = db.prepare(`UPDATE customers SET deleted_at = ? WHERE ${unseen}`);
+
+  const markAll = db.transaction(() => {
+    recordChanges.run(jobId, JSON.stringify(now), now, storeName, jobId);
+    return markDeleted.run(now, storeName, jobId).changes;
+  });
+
+  return markAll();
+}
+
+const RELATION_TABLES = [
+  'customer_addresses',
+  'customer_orders',
+  'order_line_items',
+  'order_returns',
+  'customer_tags',
+  'customer_events',
+];
+
+/**
+ * Statements that rewrite a customer's rows in the relational tables. Callers
+ * run replace() inside a transaction.
+ */
+function prepareRelationStatements() {
+  const deletes = RELATION_TABLES.map((table) => db.prepare(`DELETE FROM ${table} WHERE customer_id = ?`));
+
+  const insertAddress = db.prepare(`
+    INSERT INTO customer_addresses (
+      customer_id, position, is_default, first_name, last_name, company, address1, address2,
+      city, province, province_code, country, country_code, zip, phone
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertOrder = db.prepare(`
+    INSERT OR REPLACE INTO customer_orders (
+      id, customer_id, created_at, email, customer_accepts_marketing, discount_code, financial_status,
+      fulfillment_status, total_amount, currency_code, payment_gateways, shipping_city, shipping_country_code
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertLineItem = db.prepare(`
+    INSERT OR REPLACE INTO order_line_items (id, order_id, customer_id, name, quantity)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+  const insertReturn = db.prepare(`
+    INSERT OR REPLACE INTO order_returns (id, order_id, customer_id, name, status, total_quantity)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  const insertTag = db.prepare(`INSERT OR IGNORE INTO customer_tags (customer_id, tag) VALUES (?, ?)`);
+  const insertEvent = db.prepare(`
+    INSERT INTO customer_events (customer_id, position, action, app_title, message)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+
+  return {
+    replace(customer: CustomerData) {
+      for (const stmt of deletes) {
+        stmt.run(customer.id);
+      }
+
+      const defaultAddress = customer.defaultAddress ? JSON.stringify(customer.defaultAddress) : null;
+      (customer.addresses || []).forEach((address, position) => {
+        insertAddress.run(
+          customer.id,
+          position,
+          JSON.stringify(address) === defaultAddress ? 1 : 0,
+          sealValue(address.firstName),
+          sealValue(address.lastName),
+          sealValue(address.company),
+          sealValue(address.address1),
+          sealValue(address.address2),
+          sealValue(address.city),
+          address.province,
+          address.provinceCode,
+          address.country,
+          address.countryCodeV2,
+          sealValue(address.zip),
+          sealValue(address.phone)
+        );
+      });
+
+      for (const order of customer.orders?.nodes || []) {
+        const total = order.totalPriceSet?.shopMoney;
+        insertOrder.run(
+          order.id,
+          customer.id,
+          order.createdAt,
+          sealValue(order.email),
+          order.customerAcceptsMarketing ? 1 : 0,
+          order.discountCode,
+          order.displayFinancialStatus,
+          order.displayFulfillmentStatus,
+          total ? Number(total.amount) : null,
+          total?.currencyCode ?? null,
+          (order.paymentGatewayNames || []).join(', '),
+          sealValue(order.shippingAddress?.city),
+          order.shippingAddress?.countryCodeV2 ?? null
+        );
+
+        for (const item of order.lineItems?.nodes || []) {
+          insertLineItem.run(item.id, order.id, customer.id, item.name, item.quantity);
+        }
+        for (const orderReturn of order.returns?.nodes || []) {
+          insertReturn.run(
+            orderReturn.id,
+            order.id,
+            customer.id,
+            orderReturn.name,
+            orderReturn.status,
+            orderReturn.totalQuantity
+          );
+        }
+      }
+
+      for (const tag of customer.tags || []) {
+        insertTag.run(customer.id, tag);
+      }
+
+      (customer.events?.nodes || []).forEach((event, position) => {
+        insertEvent.run(customer.id, position, event.action, event.appTitle, sealValue(event.message));
+      });
+    },
+  };
+}
+
 export function getCustomersByStore(storeName: string): CustomerData[] {
   const stmt = db.prepare(`
     SELECT data FROM customers WHERE store_name = ? ORDER BY updated_at DESC
   `);
 
   const rows = stmt.all(storeName) as Array<{ data: string }>;
-  return rows.map(row => JSON.parse(row.data));
+  return rows.map(row => JSON.parse(openValue(row.data)));
 }
 
-export function getCustomerCount(storeName: string): number {
+/**
+ * Iterates a store's customers one row at a time. Uses its own read-only
+ * connection so the main connection stays usable while a long export awaits
+ * between rows. An optional condition on `data` narrows the rows in SQL.
+ */
+export function* iterateCustomersByStore(
+  storeName: string,
+  condition?: { where: string | null; params: unknown[] },
+  options: { includeDeleted?: boolean } = {}
+): Generator<CustomerData> {
+  const readDb = new Database(DB_PATH, { readonly: true, fileMustExist: true });
+
+  try {
+    const deleted = options.includeDeleted ? '' : 'AND deleted_at IS NULL';
+    const where = condition?.where ? `AND ${condition.where}` : '';
+    const stmt = readDb.prepare(`
+      SELECT data, deleted_at FROM customers WHERE store_name = ? ${deleted} ${where} ORDER BY updated_at DESC
+    `);
+
+    const params = condition?.where ? condition.params : [];
+    const rows = stmt.iterate(storeName, ...params) as IterableIterator<{ data: string; deleted_at: string | null }>;
+    for (const row of rows) {
+      const customer: CustomerData = JSON.parse(openValue(row.data));
+      if (row.deleted_at) {
+        customer.deletedAt = row.deleted_at;
+      }
+      yield customer;
+    }
+  } finally {
+    readDb.close();
+  }
+}
+
+export function getCustomerCount(storeName: string, options: { includeDeleted?: boolean } = {}): number {
+  const deleted = options.includeDeleted ? '' : 'AND deleted_at IS NULL';
   const stmt = db.prepare(`
-    SELECT COUNT(*) as count FROM customers WHERE store_name = ?
+    SELECT COUNT(*) as count FROM customers WHERE store_name = ? ${deleted}
   `);
 
   const result = stmt.get(storeName) as { count: number };
@@ -103,29 +1022,280 @@ export function getCustomerCount(storeName: string): number {
 }
 
 export function deleteCustomersByStore(storeName: string): number {
+  // Foreign keys aren't enforced, so the relational rows are removed explicitly
+  const deleteRelations = RELATION_TABLES.map((table) =>
+    db.prepare(`DELETE FROM ${table} WHERE customer_id IN (SELECT id FROM customers WHERE store_name = ?)`)
+  );
   const stmt = db.prepare(`DELETE FROM customers WHERE store_name = ?`);
-  const result = stmt.run(storeName);
-  return result.changes;
+
+  const deleteAll = db.transaction(() => {
+    for (const deleteRelation of deleteRelations) {
+      deleteRelation.run(storeName);
+    }
+    return stmt.run(storeName).changes;
+  });
+
+  return deleteAll();
+}
+
+// Data subjects
+
+export type CustomerRecord = {
+  storeName: string;
+  customer: CustomerData;
+};
+
+/**
+ * Every stored customer with this id, in any store. Accepts the numeric id
+ * shown in the Shopify admin as well as the GID.
+ */
+export function getCustomerRecordsById(customerId: string): CustomerRecord[] {
+  const id = /^\d+$/.test(customerId) ? `gid://shopify/Customer/${customerId}` : customerId;
+  const rows = db.prepare(`SELECT store_name, data, deleted_at FROM customers WHERE id = ?`).all(id) as any[];
+  return rows.map(rowToCustomerRecord);
+}
+
+/**
+ * Iterates the customers of every store, deleted ones included. An optional
+ * LIKE pattern on `data` narrows the rows in SQL; it can't match encrypted data.
+ */
+export function* iterateAllCustomers(dataLike?: string): Generator<CustomerRecord> {
+  const readDb = new Database(DB_PATH, { readonly: true, fileMustExist: true });
+
+  try {
+    const where = dataLike ? `WHERE data LIKE ? ESCAPE '\\'` : '';
+    const stmt = readDb.prepare(`SELECT store_name, data, deleted_at FROM customers ${where} ORDER BY store_name, id`);
+    const rows = (dataLike ? stmt.iterate(dataLike) : stmt.iterate()) as IterableIterator<any>;
+    for (const row of rows) {
+      yield rowToCustomerRecord(row);
+    }
+  } finally {
+    readDb.close();
+  }
+}
+
+function rowToCustomerRecord(row: { store_name: string; data: string; deleted_at: string | null }): CustomerRecord {
+  const customer: CustomerData = JSON.parse(openValue(row.data));
+  if (row.deleted_at) {
+    customer.deletedAt = row.deleted_at;
+  }
+  return { storeName: row.store_name, customer };
+}
+
+/**
+ * Removes a customer and everything derived from it: relational rows and
+ * change history. Deleted rows are zeroed, but copies left behind by earlier
+ * updates remain until purgeFreePages(). Returns the number of rows deleted.
+ */
+export function eraseCustomer(customerId: string): number {
+  const deletes = [...RELATION_TABLES, 'customer_changes', 'customers'].map((table) =>
+    db.prepare(`DELETE FROM ${table} WHERE ${table === 'customers' ? 'id' : 'customer_id'} = ?`)
+  );
+
+  db.pragma('secure_delete = ON');
+  const erase = db.transaction(() => deletes.reduce((rows, stmt) => rows + stmt.run(customerId).changes, 0));
+  return erase();
+}
+
+/**
+ * A store's jobs with an export file written on or after `since`, oldest first
+ */
+export function getExportFileJobsSince(storeName: string, since: string): ExportJob[] {
+  const rows = db.prepare(`
+    SELECT * FROM export_jobs
+    WHERE store_name = ? AND csv_file_path IS NOT NULL AND COALESCE(completed_at, started_at) >= ?
+    ORDER BY started_at
+  `).all(storeName, since);
+  return rows.map(rowToExportJob);
+}
+
+/**
+ * Flags the jobs' export files as needing regeneration. Files flagged earlier keep their first date.
+ */
+export function markExportFilesStale(jobIds: string[], at: string) {
+  const stmt = db.prepare(`UPDATE export_jobs SET stale_since = COALESCE(stale_since, ?) WHERE id = ?`);
+  const markAll = db.transaction(() => {
+    for (const jobId of jobIds) {
+      stmt.run(at, jobId);
+    }
+  });
+  markAll();
+}
+
+export function getStaleExportJobs(): ExportJob[] {
+  const rows = db.prepare(`
+    SELECT * FROM export_jobs WHERE stale_since IS NOT NULL AND csv_file_path IS NOT NULL ORDER BY stale_since, started_at
+  `).all();
+  return rows.map(rowToExportJob);
+}
+
+// Export file retention
+
+/**
+ * Jobs whose export file hasn't been deleted, newest file first. Active jobs
+ * are left out, since their file may be about to be replaced.
+ */
+export function getRetainedExportFileJobs(): ExportJob[] {
+  const rows = db.prepare(`
+    SELECT * FROM export_jobs
+    WHERE csv_file_path IS NOT NULL AND file_deleted_at IS NULL AND status NOT IN ('pending', 'in_progress')
+    ORDER BY COALESCE(completed_at, started_at) DESC
+  `).all();
+  return rows.map(rowToExportJob);
+}
+
+export function markExportFileDeleted(jobId: string, at: string, reason: string) {
+  db.prepare(`UPDATE export_jobs SET file_deleted_at = ?, file_deleted_reason = ? WHERE id = ?`).run(at, reason, jobId);
+}
+
+/**
+ * Finished jobs older than `before`, oldest first. Each store's latest
+ * completed job with a high-water mark is left out, since syncs continue from it.
+ */
+export function getExpiredExportJobs(before: string): ExportJob[] {
+  const rows = db.prepare(`
+    SELECT * FROM export_jobs
+    WHERE status IN ('completed', 'failed', 'cancelled')
+      AND COALESCE(completed_at, started_at) < ?
+      AND id NOT IN (
+        SELECT id FROM export_jobs latest
+        WHERE status = 'completed' AND high_water_mark IS NOT NULL AND completed_at = (
+          SELECT MAX(completed_at) FROM export_jobs
+          WHERE store_name = latest.store_name AND status = 'completed' AND high_water_mark IS NOT NULL
+        )
+      )
+    ORDER BY started_at
+  `).all(before);
+  return rows.map(rowToExportJob);
+}
+
+/**
+ * Deletes job rows. Change history, schedule runs, webhook deliveries and
+ * audit entries keep the job id they recorded.
+ */
+export function deleteExportJobs(jobIds: string[]): number {
+  const stmt = db.prepare(`DELETE FROM export_jobs WHERE id = ?`);
+  const deleteAll = db.transaction(() => jobIds.reduce((deleted, jobId) => deleted + stmt.run(jobId).changes, 0));
+  return deleteAll();
+}
+
+// Customer change history
+
+/**
+ * A customer's recorded changes, newest first. fieldPrefix narrows them to a
+ * field and everything below it, e.g. `defaultAddress` or `tags`.
+ */
+export function getCustomerChanges(
+  customerId: string,
+  options: { fieldPrefix?: string; limit?: number } = {}
+): CustomerChange[] {
+  const stmt = db.prepare(`
+    SELECT * FROM customer_changes
+    WHERE customer_id = ?
+      AND (? IS NULL OR field_path = ? OR field_path LIKE ? ESCAPE '\\')
+    ORDER BY changed_at DESC, id DESC
+    LIMIT ?
+  `);
+
+  // Accept the numeric id shown in the Shopify admin as well as the GID
+  const id = /^\d+$/.test(customerId) ? `gid://shopify/Customer/${customerId}` : customerId;
+  const prefix = options.fieldPrefix ?? null;
+  const likePrefix = prefix ? `${prefix.replace(/[\\%_]/g, '\\$&')}.%` : null;
+  const rows = stmt.all(id, prefix, prefix, likePrefix, options.limit ?? 100) as any[];
+  return rows.map(rowToCustomerChange);
+}
+
+/**
+ * What changed during a job: totals, a count per field and the most recent changes
+ */
+export function getJobChangeSummary(jobId: string, limit: number = 100): JobChangeSummary {
+  const totals = db.prepare(`
+    SELECT COUNT(*) as totalChanges, COUNT(DISTINCT customer_id) as customersChanged
+    FROM customer_changes WHERE job_id = ?
+  `).get(jobId) as { totalChanges: number; customersChanged: number };
+
+  const fields = db.prepare(`
+    SELECT field_path as fieldPath, COUNT(*) as changes, COUNT(DISTINCT customer_id) as customers
+    FROM customer_changes WHERE job_id = ?
+    GROUP BY field_path
+    ORDER BY changes DESC, field_path
+  `).all(jobId) as JobChangeSummary['fields'];
+
+  const recent = db.prepare(`
+    SELECT * FROM customer_changes WHERE job_id = ? ORDER BY id DESC LIMIT ?
+  `).all(jobId, limit) as any[];
+
+  return {
+    jobId,
+    ...totals,
+    fields,
+    changes: recent.map(rowToCustomerChange),
+  };
+}
+
+function rowToCustomerChange(row: any): CustomerChange {
+  return {
+    id: row.id,
+    customerId: row.customer_id,
+    storeName: row.store_name,
+    jobId: row.job_id,
+    fieldPath: row.field_path,
+    oldValue: row.old_value === null ? null : JSON.parse(openValue(row.old_value)),
+    newValue: row.new_value === null ? null : JSON.parse(openValue(row.new_value)),
+    changedAt: row.changed_at,
+  };
 }
 
 // Export job operations
-export function createExportJob(storeName: string): ExportJob {
-  const id = `export_${storeName}_${Date.now()}`;
+export type CreateExportJobOptions = {
+  mode?: ExportMode;
+  updatedSince?: string;
+  fetchStrategy?: FetchStrategy;
+  filter?: string;
+  jobOptions?: JobOptions;
+};
+
+export function createExportJob(storeName: string, options: CreateExportJobOptions = {}): ExportJob {
+  const mode = options.mode || 'full';
+  const prefix = mode === 'full' ? 'export' : mode;
+  // The random part keeps jobs created in the same millisecond (e.g. a schedule and an API call) apart
+  const id = `${prefix}_${storeName}_${Date.now()}_${crypto.randomUUID().slice(0, 8)}`;
   const job: ExportJob = {
     id,
     storeName,
     status: 'pending',
     totalCustomers: 0,
     processedCustomers: 0,
-    startedAt: new Date().toISOString()
+    startedAt: new Date().toISOString(),
+    mode,
+    updatedSince: options.updatedSince,
+    fetchStrategy: options.fetchStrategy || 'paginated',
+    throttleWaitMs: 0,
+    throttledCount: 0,
+    filter: options.filter,
+    deletedCustomers: 0,
+    jobOptions: options.jobOptions || {},
+    attempts: 0
   };
 
   const stmt = db.prepare(`
-    INSERT INTO export_jobs (id, store_name, status, total_customers, processed_customers, started_at)
-    VALUES (?, ?, ?, ?, ?, ?)
+    INSERT INTO export_jobs (id, store_name, status, total_customers, processed_customers, started_at, mode, updated_since, fetch_strategy, filter, job_options)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
-  stmt.run(job.id, job.storeName, job.status, job.totalCustomers, job.processedCustomers, job.startedAt);
+  stmt.run(
+    job.id,
+    job.storeName,
+    job.status,
+    job.totalCustomers,
+    job.processedCustomers,
+    job.startedAt,
+    job.mode,
+    job.updatedSince ?? null,
+    job.fetchStrategy,
+    job.filter ?? null,
+    JSON.stringify(job.jobOptions)
+  );
 
   return job;
 }
@@ -155,13 +1325,56 @@ export function updateExportJob(jobId: string, updates: Partial<ExportJob>) {
     values.push(updates.error);
   }
   if (updates.csvFilePath) {
-    fields.push('csv_file_path = ?');
+    // A newly written file replaces one the janitor deleted
+    fields.push('csv_file_path = ?', 'file_deleted_at = NULL', 'file_deleted_reason = NULL');
     values.push(updates.csvFilePath);
   }
   if (updates.lastCursor !== undefined) {
     fields.push('last_cursor = ?');
     values.push(updates.lastCursor);
   }
+  if (updates.highWaterMark !== undefined) {
+    fields.push('high_water_mark = ?');
+    values.push(updates.highWaterMark);
+  }
+  if (updates.bulkOperationId) {
+    fields.push('bulk_operation_id = ?');
+    values.push(updates.bulkOperationId);
+  }
+  if (updates.bulkOperationStatus) {
+    fields.push('bulk_operation_status = ?');
+    values.push(updates.bulkOperationStatus);
+  }
+  if (updates.bulkObjectCount !== undefined) {
+    fields.push('bulk_object_count = ?');
+    values.push(updates.bulkObjectCount);
+  }
+  if (updates.throttleWaitMs !== undefined) {
+    fields.push('throttle_wait_ms = ?');
+    values.push(updates.throttleWaitMs);
+  }
+  if (updates.throttledCount !== undefined) {
+    fields.push('throttled_count = ?');
+    values.push(updates.throttledCount);
+  }
+  if (updates.deletedCustomers !== undefined) {
+    fields.push('deleted_customers = ?');
+    values.push(updates.deletedCustomers);
+  }
+  // Present but undefined clears the filter, e.g. for an unfiltered re-export
+  if ('filter' in updates) {
+    fields.push('filter = ?');
+    values.push(updates.filter ?? null);
+  }
+  // Like the filter: an unmasked re-export clears the policy of an earlier file
+  if ('masking' in updates) {
+    fields.push('masking = ?');
+    values.push(updates.masking ? JSON.stringify(updates.masking) : null);
+  }
+  if ('controlRequest' in updates) {
+    fields.push('control_request = ?');
+    values.push(updates.controlRequest ?? null);
+  }
 
   if (fields.length === 0) return;
 
@@ -176,18 +1389,7 @@ export function getExportJob(jobId: string): ExportJob | null {
 
   if (!row) return null;
 
-  return {
-    id: row.id,
-    storeName: row.store_name,
-    status: row.status as ExportStatus,
-    totalCustomers: row.total_customers,
-    processedCustomers: row.processed_customers,
-    startedAt: row.started_at,
-    completedAt: row.completed_at,
-    error: row.error,
-    csvFilePath: row.csv_file_path,
-    lastCursor: row.last_cursor
-  };
+  return rowToExportJob(row);
 }
 
 export function getExportJobsByStore(storeName: string, limit: number = 10): ExportJob[] {
@@ -200,7 +1402,240 @@ export function getExportJobsByStore(storeName: string, limit: number = 10): Exp
 
   const rows = stmt.all(storeName, limit) as any[];
 
-  return rows.map(row => ({
+  return rows.map(rowToExportJob);
+}
+
+export function getLatestExportJob(storeName?: string): ExportJob | null {
+  let row: any;
+  if (storeName) {
+    const stmt = db.prepare(`
+      SELECT * FROM export_jobs 
+      WHERE store_name = ? 
+      ORDER BY started_at DESC 
+      LIMIT 1
+    `);
+    row = stmt.get(storeName);
+  } else {
+    const stmt = db.prepare(`SELECT * FROM export_jobs ORDER BY started_at DESC LIMIT 1`);
+    row = stmt.get();
+  }
+
+  if (!row) return null;
+  return rowToExportJob(row);
+}
+
+/**
+ * Returns the high-water mark of the most recent completed job for a store,
+ * i.e. the latest customer updatedAt seen. Incremental syncs fetch from here.
+ */
+export function getLatestHighWaterMark(storeName: string): string | null {
+  const stmt = db.prepare(`
+    SELECT high_water_mark FROM export_jobs
+    WHERE store_name = ? AND status = 'completed' AND high_water_mark IS NOT NULL
+    ORDER BY completed_at DESC
+    LIMIT 1
+  `);
+
+  const row = stmt.get(storeName) as { high_water_mark: string } | undefined;
+  return row?.high_water_mark ?? null;
+}
+
+// Job queue operations. Fetch jobs ('full' and 'sync') wait as 'pending' rows until a
+// worker leases them; the lease is renewed by heartbeats while the job runs.
+
+const QUEUED_MODES = `('full', 'sync')`;
+
+/**
+ * The store's pending or running fetch job, if any
+ */
+export function getActiveExportJob(storeName: string): ExportJob | null {
+  const row = db.prepare(`
+    SELECT * FROM export_jobs
+    WHERE store_name = ? AND status IN ('pending', 'in_progress') AND mode IN ${QUEUED_MODES}
+    ORDER BY started_at DESC
+    LIMIT 1
+  `).get(storeName);
+
+  return row ? rowToExportJob(row) : null;
+}
+
+/**
+ * Creates a pending fetch job unless the store already has an active one. The
+ * check and insert run in one write transaction, so concurrent processes can't
+ * both enqueue.
+ */
+export function enqueueExportJob(
+  storeName: string,
+  options: CreateExportJobOptions
+): { job: ExportJob; created: boolean } {
+  const enqueue = db.transaction(() => {
+    const active = getActiveExportJob(storeName);
+    if (active) {
+      return { job: active, created: false };
+    }
+    return { job: createExportJob(storeName, options), created: true };
+  });
+
+  return enqueue.immediate();
+}
+
+/**
+ * Puts a failed or paused job back in the queue so a worker resumes it from its saved cursor
+ */
+export function requeueExportJob(jobId: string, jobOptions: JobOptions): ExportJob | null {
+  db.prepare(`
+    UPDATE export_jobs
+    SET status = 'pending', job_options = ?, error = NULL, completed_at = NULL,
+        lease_owner = NULL, lease_expires_at = NULL, control_request = NULL
+    WHERE id = ? AND status IN ('failed', 'paused')
+  `).run(JSON.stringify(jobOptions), jobId);
+
+  return getExportJob(jobId);
+}
+
+// The status a job ends up in once a control request has been carried out
+export const CONTROL_REQUEST_STATUS: Record<JobControlRequest, ExportStatus> = {
+  cancel: 'cancelled',
+  pause: 'paused',
+};
+
+/**
+ * Cancels or pauses a fetch job. A job no worker is running stops right away;
+ * a running job gets a control request that its worker carries out after the
+ * current batch. Returns null when the job can't be stopped that way, e.g.
+ * it already finished, or it's a bulk job being paused.
+ */
+export function requestJobControl(jobId: string, request: JobControlRequest): ExportJob | null {
+  const control = db.transaction(() => {
+    const job = getExportJob(jobId);
+    if (!job || job.mode === 'file') return null;
+    if (request === 'pause' && job.fetchStrategy === 'bulk') return null;
+
+    const stoppable: ExportStatus[] = request === 'cancel' ? ['pending', 'in_progress', 'paused'] : ['pending', 'in_progress'];
+    if (!stoppable.includes(job.status)) return null;
+
+    if (job.status === 'in_progress') {
+      db.prepare(`UPDATE export_jobs SET control_request = ? WHERE id = ?`).run(request, jobId);
+    } else {
+      db.prepare(`
+        UPDATE export_jobs SET status = ?, completed_at = ?, control_request = NULL WHERE id = ?
+      `).run(CONTROL_REQUEST_STATUS[request], new Date().toISOString(), jobId);
+    }
+
+    return getExportJob(jobId);
+  });
+
+  return control.immediate();
+}
+
+/**
+ * The pending cancel or pause request for a job; checked by workers between batches
+ */
+export function getJobControlRequest(jobId: string): JobControlRequest | null {
+  const row = db.prepare(`SELECT control_request FROM export_jobs WHERE id = ?`).get(jobId) as
+    | { control_request: JobControlRequest | null }
+    | undefined;
+  return row?.control_request ?? null;
+}
+
+/**
+ * Leases the oldest pending job to a worker and marks it in_progress
+ */
+export function claimNextExportJob(workerId: string, leaseMs: number): ExportJob | null {
+  const claim = db.transaction(() => {
+    const row = db.prepare(`
+      SELECT id FROM export_jobs
+      WHERE status = 'pending' AND mode IN ${QUEUED_MODES}
+      ORDER BY started_at
+      LIMIT 1
+    `).get() as { id: string } | undefined;
+
+    return row ? claimExportJob(row.id, workerId, leaseMs) : null;
+  });
+
+  return claim.immediate();
+}
+
+/**
+ * Leases a specific pending job, e.g. for the CLI to run it in the foreground
+ */
+export function claimExportJob(jobId: string, workerId: string, leaseMs: number): ExportJob | null {
+  const now = new Date();
+  const result = db.prepare(`
+    UPDATE export_jobs
+    SET status = 'in_progress', lease_owner = ?, lease_expires_at = ?, heartbeat_at = ?,
+        attempts = IFNULL(attempts, 0) + 1
+    WHERE id = ? AND status = 'pending'
+  `).run(workerId, new Date(now.getTime() + leaseMs).toISOString(), now.toISOString(), jobId);
+
+  return result.changes > 0 ? getExportJob(jobId) : null;
+}
+
+/**
+ * Extends a worker's lease. Returns false when the worker no longer holds it.
+ */
+export function renewJobLease(jobId: string, workerId: string, leaseMs: number): boolean {
+  const now = new Date();
+  const result = db.prepare(`
+    UPDATE export_jobs SET lease_expires_at = ?, heartbeat_at = ?
+    WHERE id = ? AND lease_owner = ?
+  `).run(new Date(now.getTime() + leaseMs).toISOString(), now.toISOString(), jobId, workerId);
+
+  return result.changes > 0;
+}
+
+export function releaseJobLease(jobId: string, workerId: string) {
+  db.prepare(`
+    UPDATE export_jobs SET lease_owner = NULL, lease_expires_at = NULL
+    WHERE id = ? AND lease_owner = ?
+  `).run(jobId, workerId);
+}
+
+/**
+ * Finds in_progress jobs whose worker is gone: the lease expired, or the job
+ * predates leases. Fetch jobs go back to the queue and resume from their
+ * cursor, unless they were asked to cancel or pause, which then takes effect;
+ * file exports can't be resumed and are marked failed. File exports hold a
+ * lease too, so ones still being written by another process are left alone.
+ */
+export function recoverOrphanedJobs(): { requeued: ExportJob[]; stopped: ExportJob[]; failed: ExportJob[] } {
+  const recover = db.transaction(() => {
+    const rows = db.prepare(`
+      SELECT * FROM export_jobs
+      WHERE status = 'in_progress' AND (lease_expires_at IS NULL OR lease_expires_at < ?)
+    `).all(new Date().toISOString()) as any[];
+
+    const requeue = db.prepare(`
+      UPDATE export_jobs SET status = 'pending', lease_owner = NULL, lease_expires_at = NULL WHERE id = ?
+    `);
+    const fail = db.prepare(`
+      UPDATE export_jobs SET status = 'failed', error = ?, completed_at = ?, lease_owner = NULL, lease_expires_at = NULL
+      WHERE id = ?
+    `);
+
+    const stop = db.prepare(`
+      UPDATE export_jobs SET status = ?, completed_at = ?, control_request = NULL, lease_owner = NULL, lease_expires_at = NULL
+      WHERE id = ?
+    `);
+
+    const jobs = rows.map(rowToExportJob);
+    const failed = jobs.filter((job) => job.mode === 'file');
+    const stopped = jobs.filter((job) => job.mode !== 'file' && job.controlRequest);
+    const requeued = jobs.filter((job) => job.mode !== 'file' && !job.controlRequest);
+
+    const now = new Date().toISOString();
+    for (const job of requeued) requeue.run(job.id);
+    for (const job of stopped) stop.run(CONTROL_REQUEST_STATUS[job.controlRequest!], now, job.id);
+    for (const job of failed) fail.run('Interrupted by a restart', now, job.id);
+
+    return { requeued, stopped, failed };
+  });
+
+  return recover.immediate();
+}
+
+function rowToExportJob(row: any): ExportJob {
+  return {
     id: row.id,
     storeName: row.store_name,
     status: row.status as ExportStatus,
@@ -210,56 +1645,625 @@ export function getExportJobsByStore(storeName: string, limit: number = 10): Exp
     completedAt: row.completed_at,
     error: row.error,
     csvFilePath: row.csv_file_path,
-    lastCursor: row.last_cursor
+    lastCursor: row.last_cursor,
+    mode: (row.mode || 'full') as ExportMode,
+    updatedSince: row.updated_since,
+    highWaterMark: row.high_water_mark,
+    fetchStrategy: (row.fetch_strategy || 'paginated') as FetchStrategy,
+    bulkOperationId: row.bulk_operation_id,
+    bulkOperationStatus: row.bulk_operation_status,
+    bulkObjectCount: row.bulk_object_count,
+    throttleWaitMs: row.throttle_wait_ms || 0,
+    throttledCount: row.throttled_count || 0,
+    filter: row.filter,
+    deletedCustomers: row.deleted_customers || 0,
+    jobOptions: row.job_options ? JSON.parse(row.job_options) : {},
+    leaseOwner: row.lease_owner,
+    leaseExpiresAt: row.lease_expires_at,
+    heartbeatAt: row.heartbeat_at,
+    attempts: row.attempts || 0,
+    controlRequest: row.control_request,
+    staleSince: row.stale_since,
+    masking: row.masking ? JSON.parse(row.masking) : undefined,
+    fileDeletedAt: row.file_deleted_at,
+    fileDeletedReason: row.file_deleted_reason
+  };
+}
+
+// Schedules
+
+export type ScheduleInput = {
+  storeName: string;
+  cron: string;
+  action: ScheduleAction;
+  options: ScheduleOptions;
+  enabled: boolean;
+  nextRunAt: string | null;
+};
+
+export function createSchedule(input: ScheduleInput): Schedule {
+  const now = new Date().toISOString();
+  const result = db.prepare(`
+    INSERT INTO schedules (store_name, cron, action, options, enabled, next_run_at, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    input.storeName,
+    input.cron,
+    input.action,
+    JSON.stringify(input.options),
+    input.enabled ? 1 : 0,
+    input.nextRunAt,
+    now,
+    now
+  );
+
+  return getSchedule(Number(result.lastInsertRowid))!;
+}
+
+export function updateSchedule(id: number, updates: Partial<ScheduleInput>): Schedule | null {
+  const fields: string[] = [];
+  const values: any[] = [];
+
+  if (updates.storeName !== undefined) {
+    fields.push('store_name = ?');
+    values.push(updates.storeName);
+  }
+  if (updates.cron !== undefined) {
+    fields.push('cron = ?');
+    values.push(updates.cron);
+  }
+  if (updates.action !== undefined) {
+    fields.push('action = ?');
+    values.push(updates.action);
+  }
+  if (updates.options !== undefined) {
+    fields.push('options = ?');
+    values.push(JSON.stringify(updates.options));
+  }
+  if (updates.enabled !== undefined) {
+    fields.push('enabled = ?');
+    values.push(updates.enabled ? 1 : 0);
+  }
+  if (updates.nextRunAt !== undefined) {
+    fields.push('next_run_at = ?');
+    values.push(updates.nextRunAt);
+  }
+
+  if (fields.length > 0) {
+    fields.push('updated_at = ?');
+    values.push(new Date().toISOString(), id);
+    db.prepare(`UPDATE schedules SET ${fields.join(', ')} WHERE id = ?`).run(...values);
+  }
+
+  return getSchedule(id);
+}
+
+export function deleteSchedule(id: number): boolean {
+  const remove = db.transaction(() => {
+    db.prepare(`DELETE FROM schedule_runs WHERE schedule_id = ?`).run(id);
+    return db.prepare(`DELETE FROM schedules WHERE id = ?`).run(id).changes > 0;
+  });
+
+  return remove();
+}
+
+export function getSchedule(id: number): Schedule | null {
+  const row = db.prepare(`SELECT * FROM schedules WHERE id = ?`).get(id);
+  return row ? rowToSchedule(row) : null;
+}
+
+export function getSchedules(storeName?: string): Schedule[] {
+  const rows = db.prepare(`
+    SELECT * FROM schedules WHERE ? IS NULL OR store_name = ? ORDER BY id
+  `).all(storeName ?? null, storeName ?? null) as any[];
+  return rows.map(rowToSchedule);
+}
+
+/**
+ * Enabled schedules whose next run is at or before `now`
+ */
+export function getDueSchedules(now: Date): Schedule[] {
+  const rows = db.prepare(`
+    SELECT * FROM schedules WHERE enabled = 1 AND next_run_at <= ? ORDER BY next_run_at
+  `).all(now.toISOString()) as any[];
+  return rows.map(rowToSchedule);
+}
+
+/**
+ * Moves a schedule on to its next occurrence, but only if it is still at
+ * `expectedNextRunAt`. Of several schedulers sharing the database, only the
+ * one that advances the schedule runs the occurrence.
+ */
+export function advanceSchedule(id: number, expectedNextRunAt: string, nextRunAt: string | null, ranAt: string): boolean {
+  const result = db.prepare(`
+    UPDATE schedules SET next_run_at = ?, last_run_at = ? WHERE id = ? AND next_run_at = ?
+  `).run(nextRunAt, ranAt, id, expectedNextRunAt);
+  return result.changes > 0;
+}
+
+export function recordScheduleRun(run: Omit<ScheduleRun, 'id'>): ScheduleRun {
+  const result = db.prepare(`
+    INSERT INTO schedule_runs (schedule_id, scheduled_for, ran_at, status, job_id, message)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(run.scheduleId, run.scheduledFor, run.ranAt, run.status, run.jobId, run.message);
+
+  return { id: Number(result.lastInsertRowid), ...run };
+}
+
+export function updateScheduleRun(id: number, status: ScheduleRunStatus, message: string | null) {
+  db.prepare(`UPDATE schedule_runs SET status = ?, message = ? WHERE id = ?`).run(status, message, id);
+}
+
+/**
+ * A schedule's runs, newest first
+ */
+export function getScheduleRuns(scheduleId: number, limit: number = 20): ScheduleRun[] {
+  const rows = db.prepare(`
+    SELECT * FROM schedule_runs WHERE schedule_id = ? ORDER BY id DESC LIMIT ?
+  `).all(scheduleId, limit) as any[];
+
+  return rows.map((row) => ({
+    id: row.id,
+    scheduleId: row.schedule_id,
+    scheduledFor: row.scheduled_for,
+    ranAt: row.ran_at,
+    status: row.status as ScheduleRunStatus,
+    jobId: row.job_id,
+    message: row.message,
   }));
 }
 
-export function getLatestExportJob(storeName?: string): ExportJob | null {
-  let stmt;
-  if (storeName) {
-    stmt = db.prepare(`
-      SELECT * FROM export_jobs 
-      WHERE store_name = ? 
-      ORDER BY started_at DESC 
-      LIMIT 1
-    `);
-    const row = stmt.get(storeName) as any;
-    if (!row) return null;
-    return {
-      id: row.id,
-      storeName: row.store_name,
-      status: row.status as ExportStatus,
-      totalCustomers: row.total_customers,
-      processedCustomers: row.processed_customers,
-      startedAt: row.started_at,
-      completedAt: row.completed_at,
-      error: row.error,
-      csvFilePath: row.csv_file_path,
-      lastCursor: row.last_cursor
-    };
-  } else {
-    stmt = db.prepare(`SELECT * FROM export_jobs ORDER BY started_at DESC LIMIT 1`);
-    const row = stmt.get() as any;
-    if (!row) return null;
-    return {
-      id: row.id,
-      storeName: row.store_name,
-      status: row.status as ExportStatus,
-      totalCustomers: row.total_customers,
-      processedCustomers: row.processed_customers,
-      startedAt: row.started_at,
-      completedAt: row.completed_at,
-      error: row.error,
-      csvFilePath: row.csv_file_path,
-      lastCursor: row.last_cursor
-    };
+function rowToSchedule(row: any): Schedule {
+  return {
+    id: row.id,
+    storeName: row.store_name,
+    cron: row.cron,
+    action: row.action as ScheduleAction,
+    options: JSON.parse(row.options),
+    enabled: row.enabled === 1,
+    nextRunAt: row.next_run_at,
+    lastRunAt: row.last_run_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Webhooks
+
+export type WebhookInput = {
+  storeName: string | null;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+  enabled: boolean;
+};
+
+export function createWebhook(input: WebhookInput): Webhook {
+  const now = new Date().toISOString();
+  const result = db.prepare(`
+    INSERT INTO webhooks (store_name, url, secret, events, enabled, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(input.storeName, input.url, input.secret, JSON.stringify(input.events), input.enabled ? 1 : 0, now, now);
+
+  return getWebhook(Number(result.lastInsertRowid))!;
+}
+
+export function updateWebhook(id: number, updates: Partial<WebhookInput>): Webhook | null {
+  const fields: string[] = [];
+  const values: any[] = [];
+
+  if (updates.storeName !== undefined) {
+    fields.push('store_name = ?');
+    values.push(updates.storeName);
+  }
+  if (updates.url !== undefined) {
+    fields.push('url = ?');
+    values.push(updates.url);
+  }
+  if (updates.secret !== undefined) {
+    fields.push('secret = ?');
+    values.push(updates.secret);
+  }
+  if (updates.events !== undefined) {
+    fields.push('events = ?');
+    values.push(JSON.stringify(updates.events));
+  }
+  if (updates.enabled !== undefined) {
+    fields.push('enabled = ?');
+    values.push(updates.enabled ? 1 : 0);
   }
+
+  if (fields.length > 0) {
+    fields.push('updated_at = ?');
+    values.push(new Date().toISOString(), id);
+    db.prepare(`UPDATE webhooks SET ${fields.join(', ')} WHERE id = ?`).run(...values);
+  }
+
+  return getWebhook(id);
+}
+
+export function deleteWebhook(id: number): boolean {
+  const remove = db.transaction(() => {
+    db.prepare(`DELETE FROM webhook_deliveries WHERE webhook_id = ?`).run(id);
+    return db.prepare(`DELETE FROM webhooks WHERE id = ?`).run(id).changes > 0;
+  });
+
+  return remove();
+}
+
+export function getWebhook(id: number): Webhook | null {
+  const row = db.prepare(`SELECT * FROM webhooks WHERE id = ?`).get(id);
+  return row ? rowToWebhook(row) : null;
+}
+
+/**
+ * Webhooks of a store, or all of them. A store's webhooks include the global ones.
+ */
+export function getWebhooks(storeName?: string): Webhook[] {
+  const rows = db.prepare(`
+    SELECT * FROM webhooks WHERE ? IS NULL OR store_name = ? OR store_name IS NULL ORDER BY id
+  `).all(storeName ?? null, storeName ?? null) as any[];
+  return rows.map(rowToWebhook);
+}
+
+/**
+ * Queues one delivery of the payload per webhook, due immediately
+ */
+export function createWebhookDeliveries(webhooks: Webhook[], event: WebhookEvent, jobId: string, payload: unknown) {
+  const now = new Date().toISOString();
+  const insert = db.prepare(`
+    INSERT INTO webhook_deliveries (webhook_id, event, job_id, payload, status, next_attempt_at, created_at)
+    VALUES (?, ?, ?, ?, 'pending', ?, ?)
+  `);
+
+  const insertAll = db.transaction(() => {
+    for (const webhook of webhooks) {
+      insert.run(webhook.id, event, jobId, JSON.stringify(payload), now, now);
+    }
+  });
+  insertAll();
+}
+
+/**
+ * Takes up to `limit` due deliveries and pushes their next attempt `leaseMs`
+ * into the future, so another process (or a crash mid-request) can't send
+ * them twice before the outcome is recorded
+ */
+export function claimDueWebhookDeliveries(now: Date, leaseMs: number, limit: number): WebhookDelivery[] {
+  const claim = db.transaction(() => {
+    const rows = db.prepare(`
+      SELECT * FROM webhook_deliveries
+      WHERE status = 'pending' AND next_attempt_at <= ?
+      ORDER BY next_attempt_at
+      LIMIT ?
+    `).all(now.toISOString(), limit) as any[];
+
+    const lease = db.prepare(`UPDATE webhook_deliveries SET next_attempt_at = ? WHERE id = ?`);
+    const leasedUntil = new Date(now.getTime() + leaseMs).toISOString();
+    for (const row of rows) {
+      lease.run(leasedUntil, row.id);
+    }
+
+    return rows.map(rowToWebhookDelivery);
+  });
+
+  return claim.immediate();
+}
+
+/**
+ * Records an attempt. nextAttemptAt schedules a retry; without one, a failed
+ * attempt is final.
+ */
+export function recordWebhookAttempt(
+  id: number,
+  attempt: { at: string; delivered: boolean; responseStatus: number | null; error: string | null; nextAttemptAt: string | null }
+) {
+  const status: WebhookDeliveryStatus = attempt.delivered ? 'delivered' : attempt.nextAttemptAt ? 'pending' : 'failed';
+  db.prepare(`
+    UPDATE webhook_deliveries
+    SET status = ?, attempts = attempts + 1, last_attempt_at = ?, next_attempt_at = ?,
+        response_status = ?, error = ?, delivered_at = ?
+    WHERE id = ?
+  `).run(
+    status,
+    attempt.at,
+    attempt.nextAttemptAt,
+    attempt.responseStatus,
+    attempt.error,
+    attempt.delivered ? attempt.at : null,
+    id
+  );
+}
+
+/**
+ * A webhook's deliveries, newest first
+ */
+export function getWebhookDeliveries(webhookId: number, limit: number = 50): WebhookDelivery[] {
+  const rows = db.prepare(`
+    SELECT * FROM webhook_deliveries WHERE webhook_id = ? ORDER BY id DESC LIMIT ?
+  `).all(webhookId, limit) as any[];
+  return rows.map(rowToWebhookDelivery);
+}
+
+// API keys
+
+export type ApiKeyInput = {
+  name: string;
+  keyHash: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  storeNames: string[] | null;
+};
+
+export function createApiKey(input: ApiKeyInput): ApiKey {
+  const result = db.prepare(`
+    INSERT INTO api_keys (name, key_hash, prefix, scopes, store_names, created_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(
+    input.name,
+    input.keyHash,
+    input.prefix,
+    JSON.stringify(input.scopes),
+    input.storeNames ? JSON.stringify(input.storeNames) : null,
+    new Date().toISOString()
+  );
+
+  return getApiKey(Number(result.lastInsertRowid))!;
+}
+
+export function getApiKey(id: number): ApiKey | null {
+  const row = db.prepare(`SELECT * FROM api_keys WHERE id = ?`).get(id);
+  return row ? rowToApiKey(row) : null;
+}
+
+/**
+ * The unrevoked key with this hash
+ */
+export function getActiveApiKeyByHash(keyHash: string): ApiKey | null {
+  const row = db.prepare(`SELECT * FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL`).get(keyHash);
+  return row ? rowToApiKey(row) : null;
+}
+
+export function getApiKeys(): ApiKey[] {
+  const rows = db.prepare(`SELECT * FROM api_keys ORDER BY id`).all() as any[];
+  return rows.map(rowToApiKey);
+}
+
+/**
+ * Returns false when the key doesn't exist or was already revoked
+ */
+export function revokeApiKey(id: number): boolean {
+  const result = db.prepare(`
+    UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL
+  `).run(new Date().toISOString(), id);
+  return result.changes > 0;
+}
+
+export function markApiKeyUsed(id: number, at: string) {
+  db.prepare(`UPDATE api_keys SET last_used_at = ? WHERE id = ?`).run(at, id);
+}
+
+// Download links
+
+export type DownloadLinkInput = {
+  jobId: string;
+  label: string | null;
+  expiresAt: string;
+  singleUse: boolean;
+  createdBy: string;
+};
+
+export function createDownloadLink(input: DownloadLinkInput): DownloadLink {
+  const result = db.prepare(`
+    INSERT INTO download_links (job_id, label, expires_at, single_use, created_by, created_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(input.jobId, input.label, input.expiresAt, input.singleUse ? 1 : 0, input.createdBy, new Date().toISOString());
+
+  return getDownloadLink(Number(result.lastInsertRowid))!;
+}
+
+export function getDownloadLink(id: number): DownloadLink | null {
+  const row = db.prepare(`SELECT * FROM download_links WHERE id = ?`).get(id);
+  return row ? rowToDownloadLink(row) : null;
+}
+
+/**
+ * A job's links, newest first
+ */
+export function getDownloadLinks(jobId: string): DownloadLink[] {
+  const rows = db.prepare(`SELECT * FROM download_links WHERE job_id = ? ORDER BY id DESC`).all(jobId) as any[];
+  return rows.map(rowToDownloadLink);
+}
+
+/**
+ * Returns false when the job has no such link or it was already revoked
+ */
+export function revokeDownloadLink(jobId: string, id: number): boolean {
+  const result = db.prepare(`
+    UPDATE download_links SET revoked_at = ? WHERE id = ? AND job_id = ? AND revoked_at IS NULL
+  `).run(new Date().toISOString(), id, jobId);
+  return result.changes > 0;
+}
+
+/**
+ * Counts a download if the link is still usable at `at`. The check and the
+ * count are one statement, so a single-use link can't be downloaded twice.
+ */
+export function claimDownloadLink(id: number, at: string): boolean {
+  const result = db.prepare(`
+    UPDATE download_links SET download_count = download_count + 1, last_download_at = ?
+    WHERE id = ? AND revoked_at IS NULL AND expires_at > ? AND (single_use = 0 OR download_count = 0)
+  `).run(at, id, at);
+  return result.changes > 0;
+}
+
+// Audit log
+
+export type AuditEntryInput = Omit<AuditEntry, 'id'>;
+
+export function appendAuditEntry(entry: AuditEntryInput): AuditEntry {
+  const result = db.prepare(`
+    INSERT INTO audit_log (at, action, actor_type, actor, api_key_id, client_ip, store_name, job_id, file_path, details)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    entry.at,
+    entry.action,
+    entry.actorType,
+    entry.actor,
+    entry.apiKeyId,
+    entry.clientIp,
+    entry.storeName,
+    entry.jobId,
+    entry.filePath,
+    JSON.stringify(entry.details)
+  );
+
+  return { id: Number(result.lastInsertRowid), ...entry };
+}
+
+export type AuditQuery = {
+  storeName?: string;
+  storeNames?: string[]; // Only these stores, e.g. the ones an API key may access
+  action?: AuditAction;
+  actor?: string;
+  jobId?: string;
+  since?: string; // Inclusive ISO timestamps
+  until?: string;
+  limit?: number; // All matching entries when omitted
+  offset?: number;
+  oldestFirst?: boolean;
+};
+
+/**
+ * Matching audit entries, newest first unless oldestFirst is set. Iterates
+ * rows as they are read, so exporting the whole log doesn't load it at once.
+ */
+export function* iterateAuditEntries(query: AuditQuery = {}): IterableIterator<AuditEntry> {
+  const conditions: string[] = [];
+  const values: any[] = [];
+
+  if (query.storeName) {
+    conditions.push('store_name = ?');
+    values.push(query.storeName);
+  }
+  if (query.storeNames) {
+    conditions.push(`store_name IN (${query.storeNames.map(() => '?').join(', ') || 'NULL'})`);
+    values.push(...query.storeNames);
+  }
+  if (query.action) {
+    conditions.push('action = ?');
+    values.push(query.action);
+  }
+  if (query.actor) {
+    conditions.push('actor = ?');
+    values.push(query.actor);
+  }
+  if (query.jobId) {
+    conditions.push('job_id = ?');
+    values.push(query.jobId);
+  }
+  if (query.since) {
+    conditions.push('at >= ?');
+    values.push(query.since);
+  }
+  if (query.until) {
+    conditions.push('at <= ?');
+    values.push(query.until);
+  }
+
+  const stmt = db.prepare(`
+    SELECT * FROM audit_log
+    ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+    ORDER BY id ${query.oldestFirst ? 'ASC' : 'DESC'}
+    LIMIT ? OFFSET ?
+  `);
+
+  for (const row of stmt.iterate(...values, query.limit ?? -1, query.offset ?? 0)) {
+    yield rowToAuditEntry(row);
+  }
+}
+
+export function getAuditEntries(query: AuditQuery = {}): AuditEntry[] {
+  return [...iterateAuditEntries(query)];
+}
+
+function rowToAuditEntry(row: any): AuditEntry {
+  return {
+    id: row.id,
+    at: row.at,
+    action: row.action as AuditAction,
+    actorType: row.actor_type as AuditActorType,
+    actor: row.actor,
+    apiKeyId: row.api_key_id,
+    clientIp: row.client_ip,
+    storeName: row.store_name,
+    jobId: row.job_id,
+    filePath: row.file_path,
+    details: JSON.parse(row.details),
+  };
+}
+
+function rowToApiKey(row: any): ApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    scopes: JSON.parse(row.scopes),
+    storeNames: row.store_names ? JSON.parse(row.store_names) : null,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    revokedAt: row.revoked_at,
+  };
+}
+
+function rowToDownloadLink(row: any): DownloadLink {
+  return {
+    id: row.id,
+    jobId: row.job_id,
+    label: row.label,
+    expiresAt: row.expires_at,
+    singleUse: row.single_use === 1,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    downloadCount: row.download_count,
+    lastDownloadAt: row.last_download_at,
+    revokedAt: row.revoked_at,
+  };
+}
+
+function rowToWebhook(row: any): Webhook {
+  return {
+    id: row.id,
+    storeName: row.store_name,
+    url: row.url,
+    secret: row.secret,
+    events: JSON.parse(row.events),
+    enabled: row.enabled === 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function rowToWebhookDelivery(row: any): WebhookDelivery {
+  return {
+    id: row.id,
+    webhookId: row.webhook_id,
+    event: row.event as WebhookEvent,
+    jobId: row.job_id,
+    payload: JSON.parse(row.payload),
+    status: row.status as WebhookDeliveryStatus,
+    attempts: row.attempts,
+    nextAttemptAt: row.next_attempt_at,
+    lastAttemptAt: row.last_attempt_at,
+    responseStatus: row.response_status,
+    error: row.error,
+    createdAt: row.created_at,
+    deliveredAt: row.delivered_at,
+  };
 }
 
 export function closeDatabase() {
   db.close();
 }
 
-// Initialize on import
-initializeDatabase();
 
@@ -0,0 +1,117 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { recordAudit } from './audit';
+import { createDownloadLink, getExportJob, revokeDownloadLink } from './database';
+import { AuditActor, DownloadLink } from './types';
+
+// Prefixed to link URLs so they can be sent as is, e.g. https://exports.example.com
+const PUBLIC_BASE_URL = (process.env.PUBLIC_BASE_URL || '').replace(/\/$/, '');
+const DEFAULT_EXPIRES_IN_HOURS = 24;
+const MAX_EXPIRES_IN_HOURS = 30 * 24;
+
+export type DownloadLinkRequest = {
+  expiresInHours?: number; // 24 by default, at most 30 days
+  singleUse?: boolean;
+  label?: string;
+};
+
+// Why a link no longer works, or active
+export type DownloadLinkState = 'active' | 'revoked' | 'expired' | 'used';
+
+/**
+ * Issues a link to the job's export file and returns it with its URL. The
+ * URL is signed with DOWNLOAD_LINK_SECRET; changing the secret invalidates
+ * every link issued so far. Throws on invalid input or a job without a file.
+ */
+export function issueDownloadLink(
+  jobId: string,
+  request: DownloadLinkRequest,
+  actor: AuditActor
+): { link: DownloadLink; url: string } {
+  requireSecret();
+
+  const job = getExportJob(jobId);
+  if (!job) {
+    throw new Error(`Job not found: ${jobId}`);
+  }
+  if (!job.csvFilePath || job.fileDeletedAt || !fs.existsSync(path.resolve(job.csvFilePath))) {
+    throw new Error(`Job ${jobId} has no export file to link to`);
+  }
+
+  const hours = request.expiresInHours ?? DEFAULT_EXPIRES_IN_HOURS;
+  if (typeof hours !== 'number' || !(hours > 0) || hours > MAX_EXPIRES_IN_HOURS) {
+    throw new Error(`expiresInHours must be more than 0 and at most ${MAX_EXPIRES_IN_HOURS}`);
+  }
+  if (request.label !== undefined && typeof request.label !== 'string') {
+    throw new Error('label must be a string');
+  }
+
+  // Whole seconds, since that's what the URL carries
+  const expiresAt = new Date(Math.floor((Date.now() + hours * 60 * 60 * 1000) / 1000) * 1000).toISOString();
+  const link = createDownloadLink({
+    jobId,
+    label: request.label?.trim() || null,
+    expiresAt,
+    singleUse: !!request.singleUse,
+    createdBy: actor.name,
+  });
+
+  recordAudit(actor, 'link.create', {
+    storeName: job.storeName,
+    jobId,
+    filePath: job.csvFilePath,
+    details: { downloadLinkId: link.id, label: link.label ?? undefined, expiresAt, singleUse: link.singleUse },
+  });
+
+  return { link, url: downloadLinkUrl(link) };
+}
+
+/**
+ * Returns false when the job has no such link or it was already revoked
+ */
+export function withdrawDownloadLink(jobId: string, linkId: number, actor: AuditActor): boolean {
+  const job = getExportJob(jobId);
+  if (!job || !revokeDownloadLink(jobId, linkId)) {
+    return false;
+  }
+  recordAudit(actor, 'link.revoke', { storeName: job.storeName, jobId, details: { downloadLinkId: linkId } });
+  return true;
+}
+
+export function downloadLinkUrl(link: DownloadLink): string {
+  const expires = Math.floor(Date.parse(link.expiresAt) / 1000);
+  const signature = signDownloadLink(link.id, link.jobId, expires);
+  return `${PUBLIC_BASE_URL}/api/download/${link.id}?expires=${expires}&signature=${signature}`;
+}
+
+/**
+ * Whether the signature is one this service made for the link, job and expiry.
+ * False rather than throwing when no secret is set.
+ */
+export function verifyDownloadLinkSignature(linkId: number, jobId: string, expires: number, signature: string): boolean {
+  if (!process.env.DOWNLOAD_LINK_SECRET) return false;
+  const expected = Buffer.from(signDownloadLink(linkId, jobId, expires));
+  const given = Buffer.from(signature);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+export function downloadLinkState(link: DownloadLink, now: Date = new Date()): DownloadLinkState {
+  if (link.revokedAt) return 'revoked';
+  if (Date.parse(link.expiresAt) <= now.getTime()) return 'expired';
+  if (link.singleUse && link.downloadCount > 0) return 'used';
+  return 'active';
+}
+
+// HMAC-SHA256 of `${linkId}.${jobId}.${expires}`, hex encoded
+function signDownloadLink(linkId: number, jobId: string, expires: number): string {
+  return crypto.createHmac('sha256', requireSecret()).update(`${linkId}.${jobId}.${expires}`).digest('hex');
+}
+
+function requireSecret(): string {
+  const secret = process.env.DOWNLOAD_LINK_SECRET;
+  if (!secret) {
+    throw new Error('DOWNLOAD_LINK_SECRET must be set to issue download links');
+  }
+  return secret;
+}
@@ -0,0 +1,60 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+
+// AES-256-GCM; each value gets its own random IV, stored with the auth tag in front of the ciphertext
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * The master key from DATA_ENCRYPTION_KEY or the file named by
+ * DATA_ENCRYPTION_KEY_FILE, or null when encryption is off. Keys are 32 bytes,
+ * given as base64 (e.g. `openssl rand -base64 32`) or 64 hex characters.
+ */
+export function loadMasterKey(): Buffer | null {
+  const value = process.env.DATA_ENCRYPTION_KEY;
+  const file = process.env.DATA_ENCRYPTION_KEY_FILE;
+  if (value && file) {
+    throw new Error('Set either DATA_ENCRYPTION_KEY or DATA_ENCRYPTION_KEY_FILE, not both');
+  }
+  if (file) {
+    return readKeyFile(file);
+  }
+  return value ? parseKey(value, 'DATA_ENCRYPTION_KEY') : null;
+}
+
+export function readKeyFile(file: string): Buffer {
+  return parseKey(fs.readFileSync(file, 'utf8'), file);
+}
+
+function parseKey(value: string, source: string): Buffer {
+  const trimmed = value.trim();
+  const key = /^[0-9a-fA-F]{64}$/.test(trimmed) ? Buffer.from(trimmed, 'hex') : Buffer.from(trimmed, 'base64');
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`Invalid encryption key in ${source}: expected 32 bytes as base64 or hex, got ${key.length} bytes`);
+  }
+  return key;
+}
+
+export function generateDataKey(): Buffer {
+  return crypto.randomBytes(KEY_LENGTH);
+}
+
+export function encrypt(key: Buffer, plaintext: string | Buffer): Buffer {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+/**
+ * Throws when the key is wrong or the data was tampered with
+ */
+export function decrypt(key: Buffer, sealed: Buffer): Buffer {
+  const iv = sealed.subarray(0, IV_LENGTH);
+  const tag = sealed.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(sealed.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
@@ -0,0 +1,462 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { once } from 'events';
+import { Writable } from 'stream';
+import { finished, pipeline } from 'stream/promises';
+import ExcelJS from 'exceljs';
+import { ParquetSchema, ParquetWriter } from '@dsnp/parquetjs';
+import { CsvColumn, CsvProfile, formatCsvHeader, formatCsvRow, getValueAtPath } from './csv-profiles';
+import { CustomerData } from './types';
+
+export type ExportFormat = 'csv' | 'jsonl' | 'xlsx' | 'parquet';
+
+// Line-based formats that can be written to a stream as rows are read
+export type StreamFormat = 'csv' | 'jsonl';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'jsonl', 'xlsx', 'parquet'];
+
+const GZIP_FORMATS: ExportFormat[] = ['csv', 'jsonl'];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  jsonl: 'application/x-ndjson',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  parquet: 'application/vnd.apache.parquet',
+};
+
+/**
+ * Writes customers one at a time to an export file of a specific format
+ */
+export interface ExportWriter {
+  write(customer: CustomerData): Promise<void>;
+  close(): Promise<void>;
+  destroy(): Promise<void>; // Stops writing after a failure and waits for the file to close; what was written stays
+}
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat);
+}
+
+/**
+ * Content type for an export file, based on its extension
+ */
+export function contentTypeForFile(filePath: string): string {
+  if (filePath.endsWith('.gz')) return 'application/gzip';
+  const format = formatForFile(filePath);
+  return format ? CONTENT_TYPES[format] : 'application/octet-stream';
+}
+
+export function contentTypeForFormat(format: ExportFormat): string {
+  return CONTENT_TYPES[format];
+}
+
+export function formatForFile(filePath: string): ExportFormat | null {
+  const extension = path.extname(filePath.replace(/\.gz$/, '')).slice(1);
+  return isExportFormat(extension) ? extension : null;
+}
+
+// Describes how an export file was made, e.g. the masking policy applied to it
+export type ExportMetadata = Record<string, unknown>;
+
+/**
+ * Opens a writer for the given format. CSV and XLSX use the profile's columns;
+ * JSONL and Parquet always contain the full customer record. CSV and JSONL can
+ * be gzipped on the fly; XLSX and Parquet are compressed already.
+ *
+ * Metadata goes into the document properties of XLSX files and the key-value
+ * metadata of Parquet files. CSV and JSONL have nowhere to put it, so it is
+ * written next to them as `<file>.meta.json`.
+ */
+export async function openExportWriter(
+  format: ExportFormat,
+  outputFile: string,
+  profile: CsvProfile,
+  options: { gzip?: boolean; metadata?: ExportMetadata } = {}
+): Promise<ExportWriter> {
+  if (options.gzip && !supportsGzip(format)) {
+    throw new Error(`Gzip output is only supported for ${GZIP_FORMATS.join(' and ')} exports`);
+  }
+
+  switch (format) {
+    case 'csv':
+    case 'jsonl': {
+      const writer = openLineWriter(fs.createWriteStream(outputFile, { flags: 'w' }), format, profile, options);
+      const metadata = options.metadata;
+      if (!metadata) return writer;
+      return {
+        write: (customer) => writer.write(customer),
+        async close() {
+          await writer.close();
+          await fs.promises.writeFile(metadataFileFor(outputFile), JSON.stringify(metadata, null, 2) + '\n');
+        },
+        destroy: () => writer.destroy(),
+      };
+    }
+    case 'xlsx':
+      return openXlsxWriter(outputFile, profile.columns, options.metadata);
+    case 'parquet':
+      return openParquetWriter(outputFile, options.metadata);
+  }
+}
+
+/**
+ * Where the metadata of a CSV or JSONL export file is written
+ */
+export function metadataFileFor(outputFile: string): string {
+  return `${outputFile}.meta.json`;
+}
+
+/**
+ * Opens a CSV or JSONL writer over an arbitrary stream, such as an HTTP response
+ */
+export function openStreamWriter(
+  format: StreamFormat,
+  destination: Writable,
+  profile: CsvProfile,
+  options: { gzip?: boolean } = {}
+): ExportWriter {
+  return openLineWriter(destination, format, profile, options);
+}
+
+export function isStreamFormat(value: unknown): value is StreamFormat {
+  return GZIP_FORMATS.includes(value as ExportFormat);
+}
+
+export function supportsGzip(format: ExportFormat): boolean {
+  return GZIP_FORMATS.includes(format);
+}
+
+/**
+ * Writes CSV or JSONL lines to a stream, waiting for 'drain' whenever the
+ * stream's buffer is full so memory stays bounded however many rows are written
+ */
+function openLineWriter(
+  destination: Writable,
+  format: StreamFormat,
+  profile: CsvProfile,
+  options: { gzip?: boolean }
+): ExportWriter {
+  const toLine =
+    format === 'csv'
+      ? (customer: CustomerData) => formatCsvRow(customer, profile.columns)
+      : (customer: CustomerData) => JSON.stringify(customer);
+
+  const gzip = options.gzip ? zlib.createGzip() : null;
+  const output: Writable = gzip || destination;
+
+  // Surfaces errors from any stage of the pipeline, e.g. a full disk
+  const done = gzip ? pipeline(gzip, destination) : finished(destination);
+  let failure: Error | null = null;
+  done.catch((error) => {
+    failure = error;
+  });
+
+  const writeLine = async (line: string) => {
+    if (failure) throw failure;
+    if (!output.write(line + '\n')) {
+      await Promise.race([once(output, 'drain'), done]);
+    }
+  };
+
+  let header: Promise<void> | null =
+    format === 'csv' ? writeLine(formatCsvHeader(profile.columns)) : null;
+
+  return {
+    async write(customer) {
+      if (header) {
+        await header;
+        header = null;
+      }
+      await writeLine(toLine(customer));
+    },
+    async close() {
+      if (header) await header;
+      output.end();
+      await done;
+    },
+    async destroy() {
+      gzip?.destroy();
+      await destroyStream(destination);
+    },
+  };
+}
+
+// A file stream destroyed while still opening creates the file after all, so this waits for 'close'.
+// Writes still in flight fail once it is destroyed; the output is discarded, so those errors are too.
+async function destroyStream(stream: Writable) {
+  if (stream.closed) return;
+  const closed = new Promise((resolve) => stream.once('close', resolve));
+  stream.on('error', () => {});
+  stream.destroy();
+  await closed;
+}
+
+function openXlsxWriter(outputFile: string, columns: CsvColumn[], metadata?: ExportMetadata): ExportWriter {
+  const output = fs.createWriteStream(outputFile);
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: true });
+  if (metadata) {
+    // Shown under File > Properties; written to docProps/core.xml when the workbook is committed
+    workbook.subject = 'Customer export';
+    workbook.description = JSON.stringify(metadata);
+  }
+  const worksheet = workbook.addWorksheet('Customers', {
+    views: [{ state: 'frozen', ySplit: 1 }],
+  });
+
+  worksheet.columns = columns.map((column) => ({
+    key: column.header,
+    width: Math.min(Math.max(column.header.length + 2, 12), 50),
+  }));
+
+  const header = worksheet.addRow(columns.map((column) => column.header));
+  header.font = { bold: true };
+  header.commit();
+
+  return {
+    async write(customer) {
+      worksheet
+        .addRow(columns.map((column) => xlsxCellValue(getValueAtPath(customer, column.path), column)))
+        .commit();
+    },
+    async close() {
+      worksheet.commit();
+      await workbook.commit();
+    },
+    destroy: () => destroyStream(output),
+  };
+}
+
+/**
+ * Typed cell value so spreadsheets get real numbers, dates and booleans
+ */
+function xlsxCellValue(value: any, column: CsvColumn): ExcelJS.CellValue {
+  if (value === null || value === undefined) {
+    if (column.default === undefined) return null;
+    value = column.default;
+  }
+
+  switch (columnType(column)) {
+    case 'number': {
+      const number = Number(value);
+      return isNaN(number) ? String(value) : number;
+    }
+    case 'date': {
+      const date = new Date(value);
+      return isNaN(date.getTime()) ? String(value) : date;
+    }
+    case 'boolean':
+      return value === true || value === 'true';
+    default:
+      if (column.transform === 'join' && Array.isArray(value)) {
+        return value.filter((item) => item !== null && item !== undefined).join(column.separator ?? ', ');
+      }
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
+
+function columnType(column: CsvColumn): NonNullable<CsvColumn['type']> {
+  if (column.type) return column.type;
+  if (column.transform === 'date') return 'date';
+  if (column.transform === 'boolean') return 'boolean';
+  return 'string';
+}
+
+// Parquet schema mirroring CustomerData. Shopify returns money and counts as
+// strings; they are stored as DOUBLE and INT64 so the columns stay numeric.
+const ADDRESS_FIELDS = {
+  address1: { type: 'UTF8', optional: true },
+  address2: { type: 'UTF8', optional: true },
+  city: { type: 'UTF8', optional: true },
+  country: { type: 'UTF8', optional: true },
+  countryCodeV2: { type: 'UTF8', optional: true },
+  province: { type: 'UTF8', optional: true },
+  provinceCode: { type: 'UTF8', optional: true },
+  zip: { type: 'UTF8', optional: true },
+  phone: { type: 'UTF8', optional: true },
+  firstName: { type: 'UTF8', optional: true },
+  lastName: { type: 'UTF8', optional: true },
+  company: { type: 'UTF8', optional: true },
+} as const;
+
+const CUSTOMER_PARQUET_SCHEMA = new ParquetSchema({
+  id: { type: 'UTF8' },
+  firstName: { type: 'UTF8', optional: true },
+  lastName: { type: 'UTF8', optional: true },
+  displayName: { type: 'UTF8', optional: true },
+  email: { type: 'UTF8', optional: true },
+  phone: { type: 'UTF8', optional: true },
+  verifiedEmail: { type: 'BOOLEAN', optional: true },
+  state: { type: 'UTF8', optional: true },
+  locale: { type: 'UTF8', optional: true },
+  note: { type: 'UTF8', optional: true },
+  tags: { type: 'UTF8', repeated: true },
+  createdAt: { type: 'TIMESTAMP_MILLIS', optional: true },
+  updatedAt: { type: 'TIMESTAMP_MILLIS', optional: true },
+  amountSpent: { type: 'DOUBLE', optional: true },
+  amountSpentCurrency: { type: 'UTF8', optional: true },
+  numberOfOrders: { type: 'INT64', optional: true },
+  lifetimeDuration: { type: 'UTF8', optional: true },
+  addresses: { repeated: true, fields: ADDRESS_FIELDS },
+  defaultAddress: { optional: true, fields: ADDRESS_FIELDS },
+  lastOrder: {
+    optional: true,
+    fields: {
+      id: { type: 'UTF8' },
+      name: { type: 'UTF8', optional: true },
+      createdAt: { type: 'TIMESTAMP_MILLIS', optional: true },
+    },
+  },
+  productSubscriberStatus: { type: 'UTF8', optional: true },
+  isMergeable: { type: 'BOOLEAN', optional: true },
+  originalCreatedDate: { type: 'UTF8', optional: true },
+  events: {
+    repeated: true,
+    fields: {
+      action: { type: 'UTF8', optional: true },
+      appTitle: { type: 'UTF8', optional: true },
+      message: { type: 'UTF8', optional: true },
+    },
+  },
+  orders: {
+    repeated: true,
+    fields: {
+      id: { type: 'UTF8' },
+      createdAt: { type: 'TIMESTAMP_MILLIS', optional: true },
+      email: { type: 'UTF8', optional: true },
+      paymentGatewayNames: { type: 'UTF8', repeated: true },
+      customerAcceptsMarketing: { type: 'BOOLEAN', optional: true },
+      discountCode: { type: 'UTF8', optional: true },
+      displayFinancialStatus: { type: 'UTF8', optional: true },
+      displayFulfillmentStatus: { type: 'UTF8', optional: true },
+      totalPrice: { type: 'DOUBLE', optional: true },
+      currencyCode: { type: 'UTF8', optional: true },
+      lineItems: {
+        repeated: true,
+        fields: {
+          id: { type: 'UTF8' },
+          name: { type: 'UTF8', optional: true },
+          quantity: { type: 'INT32', optional: true },
+        },
+      },
+      returns: {
+        repeated: true,
+        fields: {
+          id: { type: 'UTF8' },
+          name: { type: 'UTF8', optional: true },
+          status: { type: 'UTF8', optional: true },
+          totalQuantity: { type: 'INT32', optional: true },
+        },
+      },
+      shippingCity: { type: 'UTF8', optional: true },
+      shippingCountryCode: { type: 'UTF8', optional: true },
+    },
+  },
+  predictedSpendTier: { type: 'UTF8', optional: true },
+  rfmGroup: { type: 'UTF8', optional: true },
+});
+
+async function openParquetWriter(outputFile: string, metadata?: ExportMetadata): Promise<ExportWriter> {
+  const output = fs.createWriteStream(outputFile);
+  await once(output, 'open');
+  const writer = await ParquetWriter.openStream(CUSTOMER_PARQUET_SCHEMA, output);
+  for (const [key, value] of Object.entries(metadata || {})) {
+    writer.setMetadata(key, typeof value === 'string' ? value : JSON.stringify(value));
+  }
+
+  return {
+    async write(customer) {
+      await writer.appendRow(customerToParquetRow(customer));
+    },
+    async close() {
+      await writer.close();
+    },
+    async destroy() {
+      // The library doesn't await the header write it starts on open, so the stream is ended after it instead
+      if (output.closed) return;
+      const closed = once(output, 'close');
+      output.end();
+      await closed;
+    },
+  };
+}
+
+function customerToParquetRow(customer: CustomerData): Record<string, unknown> {
+  return withoutNulls({
+    id: customer.id,
+    firstName: customer.firstName,
+    lastName: customer.lastName,
+    displayName: customer.displayName,
+    email: customer.defaultEmailAddress?.emailAddress,
+    phone: customer.defaultPhoneNumber?.phoneNumber,
+    verifiedEmail: customer.verifiedEmail,
+    state: customer.state,
+    locale: customer.locale,
+    note: customer.note,
+    tags: customer.tags || [],
+    createdAt: toDate(customer.createdAt),
+    updatedAt: toDate(customer.updatedAt),
+    amountSpent: toNumber(customer.amountSpent?.amount),
+    amountSpentCurrency: customer.amountSpent?.currencyCode,
+    numberOfOrders: toNumber(customer.numberOfOrders),
+    lifetimeDuration: customer.lifetimeDuration,
+    addresses: listWithoutNulls(customer.addresses),
+    defaultAddress: customer.defaultAddress ? withoutNulls(customer.defaultAddress) : null,
+    lastOrder: customer.lastOrder
+      ? withoutNulls({ ...customer.lastOrder, createdAt: toDate(customer.lastOrder.createdAt) })
+      : null,
+    productSubscriberStatus: customer.productSubscriberStatus,
+    isMergeable: customer.mergeable?.isMergeable,
+    originalCreatedDate: customer.originalCreatedDate?.value,
+    events: listWithoutNulls(customer.events?.nodes),
+    orders: (customer.orders?.nodes || []).filter(isPresent).map((order) =>
+      withoutNulls({
+        id: order.id,
+        createdAt: toDate(order.createdAt),
+        email: order.email,
+        paymentGatewayNames: order.paymentGatewayNames || [],
+        customerAcceptsMarketing: order.customerAcceptsMarketing,
+        discountCode: order.discountCode,
+        displayFinancialStatus: order.displayFinancialStatus,
+        displayFulfillmentStatus: order.displayFulfillmentStatus,
+        totalPrice: toNumber(order.totalPriceSet?.shopMoney?.amount),
+        currencyCode: order.totalPriceSet?.shopMoney?.currencyCode,
+        lineItems: listWithoutNulls(order.lineItems?.nodes),
+        returns: listWithoutNulls(order.returns?.nodes),
+        shippingCity: order.shippingAddress?.city,
+        shippingCountryCode: order.shippingAddress?.countryCodeV2,
+      })
+    ),
+    predictedSpendTier: customer.statistics?.predictedSpendTier,
+    rfmGroup: customer.statistics?.rfmGroup,
+  });
+}
+
+// parquetjs treats a present-but-null value as an error for required fields
+// and expects optional fields to be absent instead
+function withoutNulls<T extends object>(record: T): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(record).filter(([, value]) => value !== null && value !== undefined)
+  );
+}
+
+// Lists can hold null elements, e.g. after masking, which parquetjs can't write either
+function listWithoutNulls<T extends object>(items: (T | null | undefined)[] | null | undefined): Record<string, unknown>[] {
+  return (items || []).filter(isPresent).map(withoutNulls);
+}
+
+function isPresent<T>(value: T | null | undefined): value is T {
+  return value !== null && value !== undefined;
+}
+
+function toDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function toNumber(value: string | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return isNaN(number) ? null : number;
+}
@@ -5,438 +5,573 @@ require('dotenv').config({
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { createShopifyClient, storeConfigs } from './shopify-client';
-import { CustomerData } from './types';
+import { Writable } from 'stream';
+import { AdminApiClient } from '@shopify/admin-api-client';
+import { createShopifyClient, storeConfigs, throwIfGraphQLErrors } from './shopify-client';
+import { CUSTOMERS_QUERY } from './customer-query';
+import { fetchCustomersWithBulkOperation } from './bulk-operations';
+import { ThrottleStats, throttledRequest, waitForQueryCost } from './throttle';
+import { DEFAULT_PROFILE_NAME, getCsvProfile } from './csv-profiles';
+import { CustomerFilter, parseCustomerFilter } from './customer-filter';
+import {
+  ExportFormat,
+  ExportWriter,
+  StreamFormat,
+  metadataFileFor,
+  openExportWriter,
+  openStreamWriter,
+  supportsGzip,
+} from './export-formats';
+import { publishJobEvent } from './job-events';
+import { JOB_LEASE_MS, JobLease, createWorkerId, holdJobLease } from './job-lease';
+import { getMaskingPolicy, maskCustomer } from './masking';
+import { recordAudit, systemActor } from './audit';
+import { AuditActor, CustomerData, ExportMode, ExportStatus, FetchStrategy, JobControlRequest } from './types';
 import {
   saveCustomers,
   createExportJob,
+  claimExportJob,
   updateExportJob,
   getExportJob,
+  getJobControlRequest,
+  CONTROL_REQUEST_STATUS,
+  getLatestHighWaterMark,
+  getCustomerCount,
+  iterateCustomersByStore,
+  markUnseenCustomersDeleted,
+  isEncryptionEnabled,
+  CreateExportJobOptions,
 } from './database';
 
 const CUSTOMERS_PER_REQUEST = 250;
-const DELAY_BETWEEN_REQUESTS_MS = 500;
+
+export const EXPORTS_DIR = path.resolve(process.env.EXPORTS_DIR || path.join(__dirname, '../exports'));
+
+export type FetchOptions = {
+  // Only used when creating a new job; resumed jobs keep their own mode and strategy
+  mode?: ExportMode;
+  strategy?: FetchStrategy;
+  signal?: AbortSignal; // Aborted when the worker lost the job's lease; the job is then left as it is
+  // The caller still writes the job's file: the job stays in_progress, and completing it is left to the caller
+  deferCompletion?: boolean;
+};
+
+export type FetchResult = {
+  totalCustomers: number;
+  jobId: string;
+  status: ExportStatus; // 'completed', or 'cancelled'/'paused' when the job was stopped early
+};
 
 /**
- * Fetches all customers from Shopify and saves them to the database
+ * Fetches all customers from Shopify and saves them to the database. A cancel
+ * or pause request on the job is checked between batches and stops the fetch
+ * with the cursor saved.
  */
 export async function fetchAndSaveCustomers(
   storeName: string,
   jobId?: string,
-  startCursor?: string
-): Promise<{ totalCustomers: number; jobId: string }> {
+  startCursor?: string,
+  options: FetchOptions = {}
+): Promise<FetchResult> {
   const shopify = createShopifyClient(storeName as keyof typeof storeConfigs);
 
   // Create or get export job
-  const job = jobId ? getExportJob(jobId) : null;
-  const exportJobId = job?.id || createExportJob(storeName).id;
+  const job = (jobId ? getExportJob(jobId) : null) || createJob(storeName, options);
+  const exportJobId = job.id;
 
   // Update job status to in_progress
   updateExportJob(exportJobId, { status: 'in_progress' });
+  publishJobEvent(exportJobId, { type: 'status', status: 'in_progress' });
+
+  // Start from the existing count if resuming. A bulk operation can't pick up where it
+  // stopped, so a resumed bulk job runs it again and counts from zero.
+  let totalCustomers = job.fetchStrategy === 'bulk' ? 0 : job.processedCustomers || 0;
+
+  // Rate and ETA cover this run only; a full fetch should end up near the number of customers already stored
+  const runStartedAt = Date.now();
+  const processedAtStart = totalCustomers;
+  const estimatedTotal = job.mode === 'full' ? getCustomerCount(storeName) || null : null;
+
+  // Sync jobs only ask Shopify for customers changed since the previous watermark. Inclusive,
+  // since other customers can share the watermark's second; re-saving one is harmless.
+  const searchQuery = job.updatedSince ? `updated_at:>='${job.updatedSince}'` : null;
+  let highWaterMark = job.highWaterMark || job.updatedSince || null;
+
+  // Throttling statistics accumulate across resumes of the same job
+  const throttleStats: ThrottleStats = {
+    waitMs: job.throttleWaitMs || 0,
+    throttledCount: job.throttledCount || 0,
+    onWait: (waitMs, reason) =>
+      publishJobEvent(exportJobId, {
+        type: 'throttle',
+        waitMs,
+        reason,
+        totalWaitMs: throttleStats.waitMs,
+        throttledCount: throttleStats.throttledCount,
+      }),
+  };
 
-  let hasNextPage = true;
-  let cursor: string | null = startCursor || null;
+  const resumeInfo = startCursor ? ` (resuming from cursor, ${totalCustomers} already processed)` : '';
+  const syncInfo = searchQuery ? ` updated since ${job.updatedSince}` : '';
+  const strategyInfo = job.fetchStrategy === 'bulk' ? ' using a bulk operation' : '';
+  console.log(`Starting to fetch customers${syncInfo} for ${storeName}${strategyInfo}${resumeInfo}`);
+
+  // Saves a batch and records progress on the job
   let batchNumber = 0;
-  let totalCustomers = job?.processedCustomers || 0; // Start from existing count if resuming
+  const saveBatch = (customers: CustomerData[], nextCursor?: string) => {
+    options.signal?.throwIfAborted();
+    batchNumber++;
+    saveCustomers(storeName, customers, exportJobId, { markSeen: job.mode === 'full' });
+    totalCustomers += customers.length;
+    highWaterMark = latestUpdatedAt(customers, highWaterMark);
 
-  const resumeInfo = startCursor ? ` (resuming from cursor, ${totalCustomers} already processed)` : '';
-  console.log(`Starting to fetch customers for ${storeName}${resumeInfo}`);
+    updateExportJob(exportJobId, {
+      processedCustomers: totalCustomers,
+      lastCursor: nextCursor, // Save cursor for resume capability
+      highWaterMark: highWaterMark || undefined,
+      throttleWaitMs: throttleStats.waitMs,
+      throttledCount: throttleStats.throttledCount,
+    });
+
+    console.log(
+      `Batch ${batchNumber}: Saved ${customers.length} customers (Total: ${totalCustomers})`
+    );
+
+    const elapsedSeconds = (Date.now() - runStartedAt) / 1000;
+    const customersPerSecond = elapsedSeconds > 0 ? (totalCustomers - processedAtStart) / elapsedSeconds : 0;
+    const expected = estimatedTotal !== null ? Math.max(estimatedTotal, totalCustomers) : null;
+    publishJobEvent(exportJobId, {
+      type: 'batch',
+      batchNumber,
+      batchSize: customers.length,
+      processedCustomers: totalCustomers,
+      estimatedTotal: expected,
+      customersPerSecond: Math.round(customersPerSecond * 10) / 10,
+      etaSeconds: expected !== null && customersPerSecond > 0 ? Math.round((expected - totalCustomers) / customersPerSecond) : null,
+    });
+  };
+
+  // Remembers the first cancel or pause request seen, so the fetch stops and stays stopped
+  const control: { request: JobControlRequest | null } = { request: null };
+  const shouldStop = () => {
+    options.signal?.throwIfAborted();
+    control.request = control.request || getJobControlRequest(exportJobId);
+    return control.request !== null;
+  };
 
   try {
-    while (hasNextPage) {
-      batchNumber++;
-
-      const query = `
-        query getCustomers($first: Int!, $after: String) {
-          customers(first: $first, after: $after) {
-            edges {
-              cursor
-              node {
-                id
-                firstName
-                lastName
-                displayName
-                defaultEmailAddress {
-                  emailAddress
-                }
-                defaultPhoneNumber {
-                  phoneNumber
-                }
-                verifiedEmail
-                state
-                locale
-                note
-                tags
-                createdAt
-                updatedAt
-                amountSpent {
-                  amount
-                  currencyCode
-                }
-                numberOfOrders
-                lifetimeDuration
-                addresses {
-                  address1
-                  address2
-                  city
-                  country
-                  countryCodeV2
-                  province
-                  provinceCode
-                  zip
-                  phone
-                  firstName
-                  lastName
-                  company
-                }
-                defaultAddress {
-                  address1
-                  address2
-                  city
-                  country
-                  countryCodeV2
-                  province
-                  provinceCode
-                  zip
-                  phone
-                  firstName
-                  lastName
-                  company
-                }
-                lastOrder {
-                  id
-                  name
-                  createdAt
-                }
-                productSubscriberStatus
-                mergeable {
-                  isMergeable
-                }
-                originalCreatedDate: metafield(key: "created_at", namespace: "magento") {
-                  value
-                }
-                events(first: 5, reverse: true) {
-                  nodes {
-                    action
-                    appTitle
-                    message
-                  }
-                }
-                orders(first: 5, reverse: true) {
-                  nodes {
-                    createdAt
-                    email
-                    id
-                    paymentGatewayNames
-                    customerAcceptsMarketing
-                    customer {
-                      displayName
-                    }
-                    discountCode
-                    displayFinancialStatus
-                    displayFulfillmentStatus
-                    lineItems(first: 20) {
-                      nodes {
-                        id
-                        name
-                        quantity
-                      }
-                    }
-                    returns(first: 20) {
-                      nodes {
-                        id
-                        name
-                        status
-                        totalQuantity
-                      }
-                    }
-                    shippingAddress {
-                      address1
-                      address2
-                      city
-                      country
-                      countryCodeV2
-                      company
-                      formattedArea
-                    }
-                    totalPriceSet {
-                      shopMoney {
-                        amount
-                        currencyCode
-                      }
-                    }
-                  }
-                }
-                statistics {
-                  predictedSpendTier
-                  rfmGroup
-                }
-              }
-            }
-            pageInfo {
-              hasNextPage
-              endCursor
-            }
-          }
-        }
-      `;
-
-      console.log(`Fetching batch ${batchNumber} for ${storeName}...`);
-
-      const response = (await shopify.request(query, {
-        variables: {
-          first: CUSTOMERS_PER_REQUEST,
-          after: cursor,
-        },
-      })) as any;
-
-      // Check for GraphQL errors (can be in different formats)
-      if (response.errors) {
-        // If errors is an object with graphQLErrors property
-        if (response.errors.graphQLErrors && response.errors.graphQLErrors.length > 0) {
-          console.error(`GraphQL errors:`, JSON.stringify(response.errors.graphQLErrors, null, 2));
-          throw new Error(`GraphQL Error: ${JSON.stringify(response.errors.graphQLErrors)}`);
-        }
-        // If errors is an array
-        if (Array.isArray(response.errors) && response.errors.length > 0) {
-          console.error(`GraphQL errors:`, JSON.stringify(response.errors, null, 2));
-          throw new Error(`GraphQL Error: ${JSON.stringify(response.errors)}`);
-        }
-      }
-
-      if (!response || !response.data || !response.data.customers) {
-        console.error(`Invalid response structure:`, JSON.stringify(response, null, 2));
-        throw new Error(`Invalid response from Shopify API`);
-      }
-
-      const customers = response.data.customers.edges.map((edge: any) => edge.node);
-
-      // Save customers to database
-      if (customers.length > 0) {
-        saveCustomers(storeName, customers);
-        totalCustomers += customers.length;
-
-        // Update pagination cursor before updating progress (in case of failure)
-        const nextCursor = response.data.customers.pageInfo.endCursor;
-
-        // Update job progress AND cursor after successful batch
-        updateExportJob(exportJobId, {
-          processedCustomers: totalCustomers,
-          lastCursor: nextCursor, // Save cursor for resume capability
-        });
-
-        console.log(
-          `Batch ${batchNumber}: Saved ${customers.length} customers (Total: ${totalCustomers})`
-        );
-      }
-
-      hasNextPage = response.data.customers.pageInfo.hasNextPage;
-      cursor = response.data.customers.pageInfo.endCursor;
-      // if (batchNumber >= 3) {
-      //   hasNextPage = false;
-
-      //   const nextCursor = response.data.customers.pageInfo.endCursor;
-      //   updateExportJob(exportJobId, {
-      //     status: 'failed',
-      //     error: 'limit reached',
-      //     completedAt: new Date().toISOString(),
-      //     lastCursor: nextCursor,
-      //   });
-
-      //   console.log(`Failed to fetch customers for ${storeName}: limit reached`);
-
-      //   return { totalCustomers, jobId: exportJobId };
-      // }
-
-      // Add delay between requests
-      if (hasNextPage) {
-        await new Promise((resolve) => setTimeout(resolve, DELAY_BETWEEN_REQUESTS_MS));
-      }
+    if (job.fetchStrategy === 'bulk') {
+      await fetchCustomersWithBulkOperation(shopify, exportJobId, searchQuery, throttleStats, saveBatch, shouldStop);
+    } else {
+      await fetchCustomerPages(shopify, storeName, startCursor || null, searchQuery, throttleStats, saveBatch, shouldStop);
+    }
+
+    if (control.request) {
+      // The cursor of the last saved batch stays on the job, so a paused job resumes after it
+      const status = CONTROL_REQUEST_STATUS[control.request];
+      updateExportJob(exportJobId, {
+        status,
+        completedAt: new Date().toISOString(),
+        controlRequest: undefined,
+        highWaterMark: highWaterMark || undefined,
+        throttleWaitMs: throttleStats.waitMs,
+        throttledCount: throttleStats.throttledCount,
+      });
+
+      publishJobEvent(exportJobId, { type: 'status', status });
+      console.log(`Job ${exportJobId} ${status} after ${totalCustomers} customers for ${storeName}`);
+      return { totalCustomers, jobId: exportJobId, status };
+    }
+
+    // A completed full fetch has seen every customer that still exists in Shopify
+    const deletedCustomers = job.mode === 'full' ? markUnseenCustomersDeleted(storeName, exportJobId) : 0;
+    if (deletedCustomers > 0) {
+      console.log(`Marked ${deletedCustomers} customers no longer in Shopify as deleted`);
     }
 
     // Update job as completed (clear cursor on success)
     updateExportJob(exportJobId, {
-      status: 'completed',
+      ...(options.deferCompletion ? {} : { status: 'completed', completedAt: new Date().toISOString() }),
       totalCustomers,
-      completedAt: new Date().toISOString(),
+      deletedCustomers,
       lastCursor: undefined, // Clear cursor on completion
+      highWaterMark: highWaterMark || undefined,
+      throttleWaitMs: throttleStats.waitMs,
+      throttledCount: throttleStats.throttledCount,
+      controlRequest: undefined, // A request that arrived after the last batch has nothing left to stop
     });
+    if (!options.deferCompletion) {
+      publishJobEvent(exportJobId, { type: 'status', status: 'completed' });
+    }
 
     console.log(`Successfully fetched and saved ${totalCustomers} customers for ${storeName}`);
+    if (throttleStats.waitMs > 0) {
+      console.log(
+        `Waited ${(throttleStats.waitMs / 1000).toFixed(1)}s for rate limits (${throttleStats.throttledCount} throttled requests)`
+      );
+    }
 
-    return { totalCustomers, jobId: exportJobId };
+    return { totalCustomers, jobId: exportJobId, status: 'completed' };
   } catch (error) {
     console.error(`Error fetching customers:`, error);
+    if (options.signal?.aborted) {
+      throw error;
+    }
 
     // Update job as failed (cursor is already saved from last successful batch)
     updateExportJob(exportJobId, {
       status: 'failed',
       error: error instanceof Error ? error.message : String(error),
       completedAt: new Date().toISOString(),
+      throttleWaitMs: throttleStats.waitMs,
+      throttledCount: throttleStats.throttledCount,
+      controlRequest: undefined,
       // Note: lastCursor is preserved from the last successful batch
     });
+    publishJobEvent(exportJobId, {
+      type: 'status',
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+    });
 
     throw error;
   }
 }
 
+/**
+ * Pages through the customers connection, handing each page to saveBatch
+ * together with the cursor to resume after it. Stops before the next page
+ * once shouldStop returns true.
+ */
+async function fetchCustomerPages(
+  shopify: AdminApiClient,
+  storeName: string,
+  startCursor: string | null,
+  searchQuery: string | null,
+  throttleStats: ThrottleStats,
+  saveBatch: (customers: CustomerData[], nextCursor: string) => void,
+  shouldStop: () => boolean
+) {
+  let hasNextPage = true;
+  let cursor = startCursor;
+  let batchNumber = 0;
+
+  while (hasNextPage) {
+    if (shouldStop()) return;
+    batchNumber++;
+
+    console.log(`Fetching batch ${batchNumber} for ${storeName}...`);
+
+    const response = await throttledRequest(
+      shopify,
+      CUSTOMERS_QUERY,
+      {
+        first: CUSTOMERS_PER_REQUEST,
+        after: cursor,
+        query: searchQuery,
+      },
+      throttleStats
+    );
+
+    throwIfGraphQLErrors(response);
+
+    if (!response || !response.data || !response.data.customers) {
+      console.error(`Invalid response structure:`, JSON.stringify(response, null, 2));
+      throw new Error(`Invalid response from Shopify API`);
+    }
+
+    const customers: CustomerData[] = response.data.customers.edges.map((edge: any) => edge.node);
+
+    // Save customers to database
+    if (customers.length > 0) {
+      // Cursor is saved together with progress so a failure resumes after this batch
+      saveBatch(customers, response.data.customers.pageInfo.endCursor);
+    }
+
+    hasNextPage = response.data.customers.pageInfo.hasNextPage;
+    cursor = response.data.customers.pageInfo.endCursor;
+
+    // Wait until the cost bucket can afford the next page
+    if (hasNextPage) {
+      await waitForQueryCost(response, throttleStats);
+    }
+  }
+}
+
+/**
+ * Fetches only the customers updated since the last completed job and upserts them
+ */
+export async function syncCustomers(
+  storeName: string,
+  strategy?: FetchStrategy
+): Promise<FetchResult> {
+  return fetchAndSaveCustomers(storeName, undefined, undefined, { mode: 'sync', strategy });
+}
+
+function createJob(storeName: string, options: FetchOptions) {
+  return createExportJob(storeName, fetchJobSettings(storeName, options));
+}
+
+/**
+ * Settings for a new fetch job. Sync jobs start from the high-water mark of the
+ * store's last completed job.
+ */
+export function fetchJobSettings(storeName: string, options: FetchOptions): CreateExportJobOptions {
+  const mode = options.mode || 'full';
+  const fetchStrategy = options.strategy || 'paginated';
+
+  if (mode === 'full') {
+    return { fetchStrategy };
+  }
+
+  const updatedSince = getLatestHighWaterMark(storeName);
+  if (!updatedSince) {
+    console.warn(
+      `No completed job with a high-water mark for ${storeName}, sync will fetch all customers`
+    );
+  }
+
+  return { mode, fetchStrategy, updatedSince: updatedSince || undefined };
+}
+
+function latestUpdatedAt(customers: CustomerData[], current: string | null): string | null {
+  let latest = current;
+  for (const customer of customers) {
+    if (customer.updatedAt && (!latest || new Date(customer.updatedAt) > new Date(latest))) {
+      latest = customer.updatedAt;
+    }
+  }
+  return latest;
+}
+
+export type ExportOptions = {
+  jobId?: string;
+  profile?: string; // Column profile for CSV and XLSX
+  format?: ExportFormat;
+  gzip?: boolean; // Compress CSV or JSONL output on the fly
+  filter?: string; // Customer filter expression, e.g. `tag:VIP numberOfOrders>=3`
+  includeDeleted?: boolean; // Also export customers marked deleted in Shopify
+  masking?: string; // Masking policy applied to every record before it is written
+  actor?: AuditActor; // Who the file is recorded for in the audit log; the worker when omitted
+  signal?: AbortSignal; // Stops writing, e.g. when the worker lost the lease of the job the file is for
+};
+
+export type ExportResult = {
+  filePath: string;
+  jobId: string; // The job the file is recorded on: the given jobId, or the file job created for it
+  exported: number;
+};
+
 /**
  * Exports customers from database to CSV file
  */
 export async function exportCustomersToCSV(
   storeName: string,
-  jobId?: string
+  jobId?: string,
+  profileName: string = DEFAULT_PROFILE_NAME
 ): Promise<string> {
-  // Get customers from database
-  const { getCustomersByStore } = await import('./database');
-  const customers = getCustomersByStore(storeName);
+  return (await exportCustomers(storeName, { jobId, profile: profileName, format: 'csv' })).filePath;
+}
 
-  if (customers.length === 0) {
-    throw new Error(`No customers found in database for store: ${storeName}`);
+/**
+ * Exports customers from database to a file in the requested format. Without a
+ * jobId the export is recorded as its own 'file' job.
+ */
+export async function exportCustomers(
+  storeName: string,
+  options: ExportOptions = {}
+): Promise<ExportResult> {
+  const format = options.format || 'csv';
+
+  // Resolve the profile, filter and masking policy first so invalid input fails before any work is done
+  const profile = getCsvProfile(options.profile || DEFAULT_PROFILE_NAME);
+  const filter = options.filter ? parseExportFilter(options.filter) : null;
+  const masking = options.masking ? getMaskingPolicy(options.masking) : null;
+
+  if (options.gzip && !supportsGzip(format)) {
+    throw new Error(`Gzip output is not supported for ${format} exports`);
   }
 
-  // Create output directory
-  const outputDir = path.resolve(__dirname, '../exports');
-  if (!fs.existsSync(outputDir)) {
-    fs.mkdirSync(outputDir, { recursive: true });
+  if (getCustomerCount(storeName, { includeDeleted: options.includeDeleted }) === 0) {
+    throw new Error(`No customers found in database for store: ${storeName}`);
   }
 
-  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0];
-  const outputFile = path.join(outputDir, `customers-${storeName}-${timestamp}.csv`);
-
-  // Create write stream
-  const writeStream = fs.createWriteStream(outputFile, { flags: 'w' });
-
-  // Write CSV header
-  const headers = [
-    'id',
-    'firstName',
-    'lastName',
-    'displayName',
-    'email',
-    'phone',
-    'verifiedEmail',
-    'state',
-    'locale',
-    'note',
-    'tags',
-    'createdAt',
-    'updatedAt',
-    'amountSpent',
-    'amountSpentCurrency',
-    'numberOfOrders',
-    'lifetimeDuration',
-    'defaultAddress_address1',
-    'defaultAddress_address2',
-    'defaultAddress_city',
-    'defaultAddress_country',
-    'defaultAddress_countryCodeV2',
-    'defaultAddress_province',
-    'defaultAddress_provinceCode',
-    'defaultAddress_zip',
-    'defaultAddress_phone',
-    'defaultAddress_firstName',
-    'defaultAddress_lastName',
-    'defaultAddress_company',
-    'lastOrder_id',
-    'lastOrder_name',
-    'lastOrder_createdAt',
-    'productSubscriberStatus',
-    'isMergeable',
-    'originalCreatedDate (metafield: magento.created_at)',
-    'allAddresses',
-    'lastFiveEvents',
-    'lastFiveOrders',
-    'statistics_predictedSpendTier',
-    'statistics_rfmGroup',
-  ];
-
-  writeStream.write(headers.join(',') + '\n');
-
-  // Write customer rows
-  for (const customer of customers) {
-    const row = customerToCSVRow(customer);
-    writeStream.write(csvRowToLine(row) + '\n');
+  // A file job holds a lease like queued jobs do, so only an abandoned one is recovered as interrupted
+  const fileJob = options.jobId ? null : createExportJob(storeName, { mode: 'file', filter: filter?.expression });
+  const lease = fileJob ? holdFileJobLease(fileJob.id) : null;
+  if (fileJob) {
+    publishJobEvent(fileJob.id, { type: 'status', status: 'in_progress' });
   }
+  const eventJobId = options.jobId || fileJob!.id;
+  const signal = options.signal || lease?.signal;
+  publishJobEvent(eventJobId, { type: 'file', status: 'started', format });
+  let output: { file: string; writer: ExportWriter } | null = null;
 
-  writeStream.end();
+  try {
+    // Create output directory
+    const outputDir = EXPORTS_DIR;
+    if (!fs.existsSync(outputDir)) {
+      fs.mkdirSync(outputDir, { recursive: true });
+    }
 
-  // Wait for stream to finish
-  await new Promise<void>((resolve, reject) => {
-    writeStream.on('finish', resolve);
-    writeStream.on('error', reject);
-  });
+    // Profiles only shape CSV and XLSX, so only those files carry the profile name
+    const profiled = format === 'csv' || format === 'xlsx';
+    const usesProfile = profiled && profile.name !== DEFAULT_PROFILE_NAME;
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0];
+    const profileSuffix = usesProfile ? `-${profile.name}` : '';
+    const maskingSuffix = masking ? `-masked-${masking.name}` : '';
+    const extension = options.gzip ? `${format}.gz` : format;
+    // The job id keeps each export's file its own, so a later (e.g. filtered) export
+    // never overwrites a file that earlier jobs, downloads and links point to
+    const outputFile = path.join(
+      outputDir,
+      `customers-${storeName}${profileSuffix}${maskingSuffix}-${timestamp}-${eventJobId}.${extension}`
+    );
+
+    // Masked files say how they were masked, so whoever receives one can tell
+    const metadata = masking
+      ? {
+          storeName,
+          jobId: eventJobId,
+          generatedAt: new Date().toISOString(),
+          format,
+          ...(profiled ? { profile: profile.name } : {}),
+          ...(filter ? { filter: filter.expression } : {}),
+          masking,
+        }
+      : undefined;
+
+    // Rows are streamed from SQLite one at a time so memory stays flat regardless of store size
+    const writer = await openExportWriter(format, outputFile, profile, { gzip: options.gzip, metadata });
+    output = { file: outputFile, writer };
+    let exported = 0;
+    for (const customer of iterateMatchingCustomers(storeName, filter, options.includeDeleted)) {
+      signal?.throwIfAborted();
+      await writer.write(masking ? maskCustomer(customer, masking) : customer);
+      exported++;
+    }
+    await writer.close();
+
+    recordAudit(options.actor || systemActor('worker'), 'file.generate', {
+      storeName,
+      jobId: eventJobId,
+      filePath: outputFile,
+      details: {
+        format,
+        profile: profile.name,
+        gzip: options.gzip || undefined,
+        filter: filter?.expression,
+        includeDeleted: options.includeDeleted || undefined,
+        masking: masking?.name,
+        exported,
+      },
+    });
 
-  // Update job with CSV file path
-  if (jobId) {
-    updateExportJob(jobId, { csvFilePath: outputFile });
-  }
+    // Record the file, the filter it was limited to and its masking policy on the job
+    if (fileJob) {
+      updateExportJob(fileJob.id, {
+        status: 'completed',
+        totalCustomers: exported,
+        processedCustomers: exported,
+        completedAt: new Date().toISOString(),
+        csvFilePath: outputFile,
+        masking: masking ?? undefined,
+      });
+      publishJobEvent(fileJob.id, { type: 'status', status: 'completed' });
+    } else {
+      updateExportJob(options.jobId!, { csvFilePath: outputFile, filter: filter?.expression, masking: masking ?? undefined });
+    }
+    publishJobEvent(eventJobId, {
+      type: 'file',
+      status: 'completed',
+      format,
+      filePath: outputFile,
+      downloadUrl: `/api/download-csv/job/${eventJobId}`,
+      exported,
+    });
 
-  console.log(`CSV file created: ${outputFile}`);
+    const filtered = filter ? ` matching "${filter.expression}"` : '';
+    console.log(`${format.toUpperCase()} file created: ${outputFile} (${exported} customers${filtered})`);
 
-  return outputFile;
+    return { filePath: outputFile, jobId: eventJobId, exported };
+  } catch (error) {
+    // A partial file would otherwise be listed, downloaded and kept by retention like a finished one
+    if (output) {
+      await output.writer.destroy();
+      fs.rmSync(output.file, { force: true });
+      fs.rmSync(metadataFileFor(output.file), { force: true });
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    // A file job whose lease was lost has already been marked failed
+    if (fileJob && !lease?.signal.aborted) {
+      updateExportJob(fileJob.id, {
+        status: 'failed',
+        error: message,
+        completedAt: new Date().toISOString(),
+      });
+      publishJobEvent(fileJob.id, { type: 'status', status: 'failed', error: message });
+    }
+    publishJobEvent(eventJobId, { type: 'file', status: 'failed', format, error: message });
+    throw error;
+  } finally {
+    lease?.release();
+  }
 }
 
-function customerToCSVRow(customer: CustomerData): any {
-  return {
-    id: customer.id || '',
-    firstName: customer.firstName || '',
-    lastName: customer.lastName || '',
-    displayName: customer.displayName || '',
-    email: customer.defaultEmailAddress?.emailAddress || '',
-    phone: customer.defaultPhoneNumber?.phoneNumber || '',
-    verifiedEmail: customer.verifiedEmail ? 'true' : 'false',
-    state: customer.state || '',
-    locale: customer.locale || '',
-    note: (customer.note || '').replace(/"/g, '""'),
-    tags: customer.tags.join(', '),
-    createdAt: customer.createdAt || '',
-    updatedAt: customer.updatedAt || '',
-    amountSpent: customer.amountSpent?.amount || '0',
-    amountSpentCurrency: customer.amountSpent?.currencyCode || '',
-    numberOfOrders: customer.numberOfOrders || '0',
-    lifetimeDuration: customer.lifetimeDuration || '',
-    defaultAddress_address1: customer.defaultAddress?.address1 || '',
-    defaultAddress_address2: customer.defaultAddress?.address2 || '',
-    defaultAddress_city: customer.defaultAddress?.city || '',
-    defaultAddress_country: customer.defaultAddress?.country || '',
-    defaultAddress_countryCodeV2: customer.defaultAddress?.countryCodeV2 || '',
-    defaultAddress_province: customer.defaultAddress?.province || '',
-    defaultAddress_provinceCode: customer.defaultAddress?.provinceCode || '',
-    defaultAddress_zip: customer.defaultAddress?.zip || '',
-    defaultAddress_phone: customer.defaultAddress?.phone || '',
-    defaultAddress_firstName: customer.defaultAddress?.firstName || '',
-    defaultAddress_lastName: customer.defaultAddress?.lastName || '',
-    defaultAddress_company: customer.defaultAddress?.company || '',
-    lastOrder_id: customer.lastOrder?.id || '',
-    lastOrder_name: customer.lastOrder?.name || '',
-    lastOrder_createdAt: customer.lastOrder?.createdAt || '',
-    productSubscriberStatus: customer.productSubscriberStatus || '',
-    isMergeable: customer.mergeable?.isMergeable ? 'true' : 'false',
-    originalCreatedDate: customer.originalCreatedDate?.value || '',
-    allAddresses: JSON.stringify(customer.addresses || []),
-    allEvents: JSON.stringify(customer.events?.nodes || []),
-    allOrders: JSON.stringify(customer.orders?.nodes || []),
-    statistics_predictedSpendTier: customer.statistics?.predictedSpendTier || '',
-    statistics_rfmGroup: customer.statistics?.rfmGroup || '',
-  };
+function holdFileJobLease(jobId: string): JobLease {
+  const workerId = createWorkerId('file');
+  claimExportJob(jobId, workerId, JOB_LEASE_MS);
+  return holdJobLease(jobId, workerId);
 }
 
-function escapeCSVField(value: string): string {
-  if (
-    value.includes(',') ||
-    value.includes('"') ||
-    value.includes('\n') ||
-    value.includes('\r')
-  ) {
-    return `"${value.replace(/"/g, '""')}"`;
+/**
+ * Streams customers straight from the database to a writable stream (e.g. an
+ * HTTP response) without writing a file first. Returns the number of rows written.
+ */
+export async function streamCustomers(
+  storeName: string,
+  destination: Writable,
+  options: {
+    format: StreamFormat;
+    profile?: string;
+    gzip?: boolean;
+    filter?: string;
+    includeDeleted?: boolean;
+    masking?: string;
+  }
+): Promise<number> {
+  const profile = getCsvProfile(options.profile || DEFAULT_PROFILE_NAME);
+  const filter = options.filter ? parseExportFilter(options.filter) : null;
+  const masking = options.masking ? getMaskingPolicy(options.masking) : null;
+  const writer = openStreamWriter(options.format, destination, profile, { gzip: options.gzip });
+
+  let exported = 0;
+  for (const customer of iterateMatchingCustomers(storeName, filter, options.includeDeleted)) {
+    await writer.write(masking ? maskCustomer(customer, masking) : customer);
+    exported++;
   }
-  return value;
+  await writer.close();
+
+  return exported;
 }
 
-function csvRowToLine(row: any): string {
-  return Object.values(row)
-    .map((v) => escapeCSVField(String(v)))
-    .join(',');
+// Encrypted rows can't be filtered in SQL, so every term is evaluated after decryption then
+function parseExportFilter(expression: string): CustomerFilter {
+  return parseCustomerFilter(expression, { pushdown: !isEncryptionEnabled() });
 }
 
+/**
+ * Narrows rows in SQLite with the filter's pushed-down terms, then applies the rest in JS
+ */
+function* iterateMatchingCustomers(
+  storeName: string,
+  filter: CustomerFilter | null,
+  includeDeleted: boolean = false
+): Generator<CustomerData> {
+  for (const customer of iterateCustomersByStore(storeName, filter ?? undefined, { includeDeleted })) {
+    if (!filter || filter.matches(customer)) {
+      yield customer;
+    }
+  }
+}
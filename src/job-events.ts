@@ -0,0 +1,71 @@
+import { EventEmitter } from 'events';
+import { ExportFormat } from './export-formats';
+import { ExportJob, ExportStatus } from './types';
+
+// Progress published while a job runs in this process. Jobs run by a worker in
+// another process only show up through their export_jobs row.
+export type JobEventData =
+  | { type: 'status'; status: ExportStatus; error?: string }
+  | {
+      type: 'batch';
+      batchNumber: number;
+      batchSize: number;
+      processedCustomers: number;
+      estimatedTotal: number | null; // Customers already in the database for full fetches; unknown for syncs
+      customersPerSecond: number; // Since the job (or its resume) started
+      etaSeconds: number | null;
+    }
+  | { type: 'throttle'; waitMs: number; reason: 'throttled' | 'cost'; totalWaitMs: number; throttledCount: number }
+  | {
+      type: 'file';
+      status: 'started' | 'completed' | 'failed';
+      format: ExportFormat;
+      filePath?: string;
+      downloadUrl?: string;
+      exported?: number;
+      error?: string;
+    };
+
+export type JobEvent = JobEventData & { jobId: string; at: string };
+
+const emitter = new EventEmitter();
+// One listener per open SSE connection or CLI progress bar
+emitter.setMaxListeners(0);
+
+// Channel for listeners of every job, e.g. webhooks
+const ALL_JOBS = '*';
+
+export function publishJobEvent(jobId: string, data: JobEventData) {
+  const event: JobEvent = { ...data, jobId, at: new Date().toISOString() };
+  emitter.emit(jobId, event);
+  emitter.emit(ALL_JOBS, event);
+}
+
+/**
+ * Calls listener with every event of a job; returns a function that unsubscribes
+ */
+export function subscribeToJob(jobId: string, listener: (event: JobEvent) => void): () => void {
+  emitter.on(jobId, listener);
+  return () => {
+    emitter.off(jobId, listener);
+  };
+}
+
+export function subscribeToAllJobs(listener: (event: JobEvent) => void): () => void {
+  return subscribeToJob(ALL_JOBS, listener);
+}
+
+/**
+ * Whether nothing more will happen to the job after this event. File jobs end
+ * with their file event; fetches end with their status, which for those that
+ * also write their CSV follows the file event.
+ */
+export function isFinalJobEvent(job: ExportJob, event: JobEvent): boolean {
+  if (job.mode === 'file') {
+    return event.type === 'file' && event.status !== 'started';
+  }
+  if (event.type !== 'status') {
+    return false;
+  }
+  return event.status === 'completed' || event.status === 'failed' || event.status === 'cancelled' || event.status === 'paused';
+}
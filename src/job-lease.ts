@@ -0,0 +1,39 @@
+import * as os from 'os';
+import { releaseJobLease, renewJobLease } from './database';
+
+// A job whose lease runs out without a heartbeat is treated as orphaned
+export const JOB_LEASE_MS = parseInt(process.env.JOB_LEASE_MS || '') || 60000;
+const HEARTBEAT_INTERVAL_MS = Math.floor(JOB_LEASE_MS / 3);
+
+export type JobLease = {
+  signal: AbortSignal; // Aborted once the lease is lost, e.g. after it expired and the job was recovered
+  release(): void;
+};
+
+export function createWorkerId(prefix: string = 'worker'): string {
+  return `${prefix}-${os.hostname()}-${process.pid}`;
+}
+
+/**
+ * Heartbeats a lease the worker already holds until released. Once a renewal
+ * finds the lease gone the job belongs to someone else, so the signal is
+ * aborted and the run should stop without touching the job again.
+ */
+export function holdJobLease(jobId: string, workerId: string): JobLease {
+  const controller = new AbortController();
+  const heartbeat = setInterval(() => {
+    if (!renewJobLease(jobId, workerId, JOB_LEASE_MS)) {
+      console.warn(`Worker ${workerId} no longer holds the lease on job ${jobId}, stopping it`);
+      clearInterval(heartbeat);
+      controller.abort(new Error(`Lost the lease on job ${jobId}`));
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  return {
+    signal: controller.signal,
+    release: () => {
+      clearInterval(heartbeat);
+      releaseJobLease(jobId, workerId);
+    },
+  };
+}
@@ -0,0 +1,25 @@
+import { enqueueExportJob, requeueExportJob } from './database';
+import { FetchOptions, fetchJobSettings } from './export-service';
+import { ExportJob, JobOptions } from './types';
+
+/**
+ * Queues a full or sync fetch for a store. When the store already has a pending
+ * or running job, nothing is queued and that job is returned with created=false.
+ */
+export function enqueueFetchJob(
+  storeName: string,
+  options: FetchOptions & JobOptions = {}
+): { job: ExportJob; created: boolean } {
+  const { mode, strategy, ...jobOptions } = options;
+  return enqueueExportJob(storeName, {
+    ...fetchJobSettings(storeName, { mode, strategy }),
+    jobOptions,
+  });
+}
+
+/**
+ * Queues a failed or paused job again; the worker resumes it from its last saved cursor
+ */
+export function requeueJob(jobId: string, jobOptions: JobOptions = {}): ExportJob | null {
+  return requeueExportJob(jobId, jobOptions);
+}
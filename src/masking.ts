@@ -0,0 +1,173 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CustomerData, MaskingMethod, MaskingPolicy, MaskingRule } from './types';
+
+const POLICIES_PATH =
+  process.env.MASKING_POLICIES_PATH || path.join(__dirname, '../config/masking-policies.json');
+
+export const MASKING_METHODS: MaskingMethod[] = ['redact', 'partial', 'hash', 'generalize'];
+
+// Characters left visible when a rule doesn't set keep
+const PARTIAL_KEEP = { email: 1, phone: 4, text: 1 };
+const GENERALIZE_KEEP = 3;
+const MASK = '***';
+
+type PoliciesFile = {
+  policies: Record<string, { description?: string; fields: Record<string, MaskingMethod | MaskingRule> }>;
+};
+
+/**
+ * Loads the masking policies from the config file. Like CSV profiles, the
+ * file is read on every call so edits apply to the next export.
+ */
+export function loadMaskingPolicies(): Record<string, MaskingPolicy> {
+  if (!fs.existsSync(POLICIES_PATH)) {
+    return {};
+  }
+
+  const config = JSON.parse(fs.readFileSync(POLICIES_PATH, 'utf8')) as PoliciesFile;
+  const policies: Record<string, MaskingPolicy> = {};
+
+  for (const [name, policy] of Object.entries(config.policies || {})) {
+    if (!policy.fields || Object.keys(policy.fields).length === 0) {
+      throw new Error(`Masking policy "${name}" in ${POLICIES_PATH} has no fields`);
+    }
+
+    const fields: Record<string, MaskingRule> = {};
+    for (const [fieldPath, rule] of Object.entries(policy.fields)) {
+      fields[fieldPath] = validateRule(name, fieldPath, typeof rule === 'string' ? { method: rule } : rule);
+    }
+    policies[name] = { name, description: policy.description, fields };
+  }
+
+  return policies;
+}
+
+export function getMaskingPolicyNames(): string[] {
+  return Object.keys(loadMaskingPolicies());
+}
+
+/**
+ * Throws when the policy doesn't exist, or hashes without MASKING_SALT set
+ */
+export function getMaskingPolicy(name: string): MaskingPolicy {
+  const policy = loadMaskingPolicies()[name];
+  if (!policy) {
+    const available = getMaskingPolicyNames();
+    throw new Error(`Unknown masking policy: ${name}. Available policies: ${available.join(', ') || 'none'}`);
+  }
+  if (Object.values(policy.fields).some((rule) => rule.method === 'hash') && !process.env.MASKING_SALT) {
+    throw new Error(`Masking policy "${name}" hashes fields, so MASKING_SALT must be set`);
+  }
+  return policy;
+}
+
+/**
+ * Masks a customer in place, so call it on records read for the export only.
+ * Fields missing from the record are left alone.
+ */
+export function maskCustomer(customer: CustomerData, policy: MaskingPolicy): CustomerData {
+  const salt = process.env.MASKING_SALT || '';
+  for (const [fieldPath, rule] of Object.entries(policy.fields)) {
+    maskAtPath(customer, fieldPath.split('.'), (value) => maskValue(value, rule, salt));
+  }
+  return customer;
+}
+
+function validateRule(policyName: string, fieldPath: string, rule: MaskingRule): MaskingRule {
+  if (!MASKING_METHODS.includes(rule.method)) {
+    throw new Error(
+      `Masking policy "${policyName}" has an unknown method for ${fieldPath}: ${rule.method}. Available methods: ${MASKING_METHODS.join(', ')}`
+    );
+  }
+  if (rule.keep !== undefined && (!Number.isInteger(rule.keep) || rule.keep < 0)) {
+    throw new Error(`Masking policy "${policyName}" has an invalid keep for ${fieldPath}: ${rule.keep}`);
+  }
+  // Parquet requires ids, and rows can't be told apart without one
+  if (rule.method === 'redact' && fieldPath.split('.').pop() === 'id') {
+    throw new Error(`Masking policy "${policyName}" redacts ${fieldPath}; hash ids instead`);
+  }
+  return rule.keep === undefined ? { method: rule.method } : { method: rule.method, keep: rule.keep };
+}
+
+// Same path syntax as CSV columns: `[]` maps over an array, a number picks an element
+function maskAtPath(target: any, segments: string[], mask: (value: any) => any) {
+  if (target === null || typeof target !== 'object') return;
+
+  const [segment, ...rest] = segments;
+  const key = segment.endsWith('[]') ? segment.slice(0, -2) : segment;
+  if (!(key in target)) return;
+
+  if (segment.endsWith('[]')) {
+    const items = target[key];
+    if (!Array.isArray(items)) return;
+    if (rest.length === 0) {
+      target[key] = mask(items);
+    } else {
+      items.forEach((item) => maskAtPath(item, rest, mask));
+    }
+  } else if (rest.length === 0) {
+    const masked = mask(target[key]);
+    if (masked === undefined) {
+      delete target[key];
+    } else {
+      target[key] = masked;
+    }
+  } else {
+    maskAtPath(target[key], rest, mask);
+  }
+}
+
+function maskValue(value: any, rule: MaskingRule, salt: string): any {
+  if (value === null || value === undefined) return value;
+  // A redacted list is emptied rather than left full of nulls
+  if (Array.isArray(value)) {
+    if (rule.method === 'redact') return [];
+    return value.map((item) => maskValue(item, rule, salt)).filter((item) => item !== undefined);
+  }
+  // Only the fields of an object can be partly hidden, hashed or generalized, so the
+  // object is dropped (undefined) whatever the method
+  if (typeof value === 'object') return undefined;
+  if (rule.method === 'redact') return null;
+
+  const text = String(value);
+  switch (rule.method) {
+    case 'partial':
+      return partialMask(text, rule.keep);
+    case 'hash':
+      return crypto.createHmac('sha256', salt).update(normalizeForHash(text)).digest('hex');
+    case 'generalize':
+      return generalize(text, rule.keep);
+  }
+}
+
+// j***@example.com, ***5678 for phone numbers, J*** for anything else
+function partialMask(text: string, keep: number | undefined): string {
+  const at = text.lastIndexOf('@');
+  if (at > 0) {
+    return `${text.slice(0, Math.min(keep ?? PARTIAL_KEEP.email, at))}${MASK}${text.slice(at)}`;
+  }
+  if (isPhoneNumber(text)) {
+    const digits = text.replace(/\D/g, '');
+    return `${MASK}${digits.slice(digits.length - Math.min(keep ?? PARTIAL_KEEP.phone, digits.length))}`;
+  }
+  return `${text.slice(0, keep ?? PARTIAL_KEEP.text)}${MASK}`;
+}
+
+// Dates to their month, e.g. 2024-03; anything else to its first characters, e.g. a zip's area
+function generalize(text: string, keep: number | undefined): string {
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) {
+    return text.slice(0, 7);
+  }
+  return text.slice(0, keep ?? GENERALIZE_KEEP);
+}
+
+// The same email or phone number hashes the same however it was typed, so files can be joined on it
+function normalizeForHash(text: string): string {
+  return isPhoneNumber(text) ? text.replace(/\D/g, '') : text.trim().toLowerCase();
+}
+
+function isPhoneNumber(text: string): boolean {
+  return /^\+?[\d\s().-]+$/.test(text) && text.replace(/\D/g, '').length >= 6;
+}
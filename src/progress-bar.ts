@@ -0,0 +1,94 @@
+import { JobEvent, subscribeToJob } from './job-events';
+
+const BAR_WIDTH = 30;
+
+/**
+ * Draws a live progress line for a job running in this process from its batch
+ * and throttle events. Console output is printed above the line, which is
+ * redrawn after it. Does nothing when the stream isn't a terminal, since the
+ * regular batch logs already show progress there. Returns a function that
+ * removes the line.
+ */
+export function showJobProgress(jobId: string, stream: NodeJS.WriteStream = process.stderr): () => void {
+  if (!stream.isTTY) {
+    return () => {};
+  }
+
+  let batch: Extract<JobEvent, { type: 'batch' }> | null = null;
+  let throttle: Extract<JobEvent, { type: 'throttle' }> | null = null;
+  let line = '';
+
+  const clear = () => {
+    if (line) stream.write('\r\x1b[K');
+  };
+  const draw = () => {
+    line = batch ? formatProgress(batch, throttle) : '';
+    if (line) stream.write(line.slice(0, (stream.columns || 120) - 1));
+  };
+
+  // Keep log lines from being appended to the progress line
+  const originals = { log: console.log, warn: console.warn, error: console.error };
+  for (const method of ['log', 'warn', 'error'] as const) {
+    console[method] = (...args: unknown[]) => {
+      clear();
+      originals[method](...args);
+      draw();
+    };
+  }
+
+  const unsubscribe = subscribeToJob(jobId, (event) => {
+    if (event.type === 'batch') {
+      batch = event;
+      throttle = null;
+    } else if (event.type === 'throttle') {
+      throttle = event;
+    } else {
+      return;
+    }
+    clear();
+    draw();
+  });
+
+  return () => {
+    unsubscribe();
+    Object.assign(console, originals);
+    clear();
+    line = '';
+  };
+}
+
+function formatProgress(
+  batch: Extract<JobEvent, { type: 'batch' }>,
+  throttle: Extract<JobEvent, { type: 'throttle' }> | null
+): string {
+  const parts: string[] = [];
+  const processed = batch.processedCustomers.toLocaleString();
+
+  if (batch.estimatedTotal) {
+    const ratio = Math.min(batch.processedCustomers / batch.estimatedTotal, 1);
+    const filled = Math.round(ratio * BAR_WIDTH);
+    parts.push(
+      `[${'█'.repeat(filled)}${'░'.repeat(BAR_WIDTH - filled)}] ${Math.floor(ratio * 100)}%`,
+      `${processed} / ~${batch.estimatedTotal.toLocaleString()} customers`
+    );
+  } else {
+    parts.push(`${processed} customers`);
+  }
+
+  parts.push(`${batch.customersPerSecond}/s`);
+  if (batch.etaSeconds !== null) {
+    parts.push(`ETA ${formatDuration(batch.etaSeconds)}`);
+  }
+  if (throttle) {
+    parts.push(`waiting ${(throttle.waitMs / 1000).toFixed(1)}s${throttle.reason === 'throttled' ? ' (throttled)' : ''}`);
+  }
+
+  return `⏳ ${parts.join(' · ')}`;
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${String(seconds % 60).padStart(2, '0')}s`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+}
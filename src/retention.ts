@@ -0,0 +1,254 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { recordAudit, systemActor } from './audit';
+import { EXPORTS_DIR } from './export-service';
+import { metadataFileFor } from './export-formats';
+import { deleteExportJobs, getExpiredExportJobs, getRetainedExportFileJobs, markExportFileDeleted } from './database';
+import { AuditActor, ExportJob } from './types';
+
+const RETENTION_INTERVAL_MS = parseInt(process.env.RETENTION_INTERVAL_MS || '') || 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+
+// A null limit is not enforced
+export type RetentionPolicy = {
+  maxAgeDays: number | null; // Export files older than this are deleted
+  maxFilesPerStore: number | null; // Only each store's newest files are kept
+  maxTotalBytes: number | null; // Oldest files are deleted while exports/ is larger than this
+  jobMaxAgeDays: number | null; // Finished jobs without an export file are deleted after this
+};
+
+export type FileCleanup = {
+  jobId: string;
+  storeName: string;
+  filePath: string;
+  fileSize: number | null; // Null when there was nothing left on disk to delete
+  generatedAt: string;
+  reason: string; // Shown by the download routes, which answer 410 Gone
+};
+
+export type CleanupResult = {
+  dryRun: boolean;
+  files: FileCleanup[]; // Deleted, or already gone and marked as deleted
+  jobs: ExportJob[]; // Job rows deleted
+  freedBytes: number;
+};
+
+export type CleanupOptions = {
+  dryRun?: boolean; // Only work out what would be deleted
+  now?: Date;
+  actor?: AuditActor; // Recorded in the audit log for each deleted file; the janitor by default
+  policy?: RetentionPolicy;
+};
+
+/**
+ * Reads the limits from RETENTION_MAX_AGE_DAYS, RETENTION_MAX_FILES_PER_STORE,
+ * RETENTION_MAX_TOTAL_MB and RETENTION_JOB_MAX_AGE_DAYS. Unset or 0 means no
+ * limit; anything else that isn't a positive number throws.
+ */
+export function loadRetentionPolicy(): RetentionPolicy {
+  const maxTotalMb = parseLimit('RETENTION_MAX_TOTAL_MB');
+  return {
+    maxAgeDays: parseLimit('RETENTION_MAX_AGE_DAYS'),
+    maxFilesPerStore: parseLimit('RETENTION_MAX_FILES_PER_STORE', { integer: true }),
+    maxTotalBytes: maxTotalMb === null ? null : Math.floor(maxTotalMb * MB),
+    jobMaxAgeDays: parseLimit('RETENTION_JOB_MAX_AGE_DAYS'),
+  };
+}
+
+export function describeRetentionPolicy(policy: RetentionPolicy): string {
+  const limits = [
+    policy.maxAgeDays !== null && `files kept ${policy.maxAgeDays} days`,
+    policy.maxFilesPerStore !== null && `${policy.maxFilesPerStore} files per store`,
+    policy.maxTotalBytes !== null && `${policy.maxTotalBytes / MB} MB in total`,
+    policy.jobMaxAgeDays !== null && `jobs kept ${policy.jobMaxAgeDays} days`,
+  ].filter((limit): limit is string => !!limit);
+  return limits.length > 0 ? limits.join(', ') : 'no retention limits set';
+}
+
+/**
+ * When the max age makes the janitor delete a file generated at this time, or null without one
+ */
+export function fileExpiresAt(generatedAt: string, policy: RetentionPolicy = loadRetentionPolicy()): string | null {
+  if (policy.maxAgeDays === null) return null;
+  return new Date(Date.parse(generatedAt) + policy.maxAgeDays * DAY_MS).toISOString();
+}
+
+/**
+ * Applies the retention policy. Only files in exports/ that a job points to
+ * are deleted, along with their .meta.json sidecar, and the job records why.
+ * Files gone from disk are marked as deleted too. Job rows are deleted only
+ * once their file is, and audit entries are never deleted.
+ */
+export function runCleanup(options: CleanupOptions = {}): CleanupResult {
+  const policy = options.policy || loadRetentionPolicy();
+  const now = options.now || new Date();
+  const dryRun = !!options.dryRun;
+
+  const files = planFileCleanup(policy, now);
+  const filesDeleted = new Set(files.map((file) => file.jobId));
+  const jobs =
+    policy.jobMaxAgeDays === null
+      ? []
+      : getExpiredExportJobs(new Date(now.getTime() - policy.jobMaxAgeDays * DAY_MS).toISOString()).filter(
+          (job) => !job.csvFilePath || job.fileDeletedAt || filesDeleted.has(job.id)
+        );
+
+  if (!dryRun) {
+    const actor = options.actor || systemActor('janitor');
+    for (const file of files) {
+      deleteExportFile(file, now.toISOString(), actor);
+    }
+    deleteExportJobs(jobs.map((job) => job.id));
+  }
+
+  return {
+    dryRun,
+    files,
+    jobs,
+    freedBytes: files.reduce((total, file) => total + (file.fileSize ?? 0), 0),
+  };
+}
+
+export type Janitor = {
+  tick(): CleanupResult; // Runs a cleanup now; start() calls it on an interval
+  start(): void;
+  stop(): void;
+};
+
+export type JanitorOptions = {
+  now?: () => Date;
+  intervalMs?: number;
+  policy?: RetentionPolicy;
+};
+
+/**
+ * Throws when the retention settings are invalid
+ */
+export function createJanitor(options: JanitorOptions = {}): Janitor {
+  const now = options.now || (() => new Date());
+  const intervalMs = options.intervalMs ?? RETENTION_INTERVAL_MS;
+  const policy = options.policy || loadRetentionPolicy();
+  let timer: NodeJS.Timeout | null = null;
+  let stopped = true;
+
+  const tick = (): CleanupResult => runCleanup({ now: now(), policy });
+
+  const loop = () => {
+    try {
+      const result = tick();
+      if (result.files.length > 0 || result.jobs.length > 0) {
+        console.log(
+          `Janitor deleted ${result.files.length} export file(s) (${Math.round(result.freedBytes / MB)} MB) and ${result.jobs.length} job(s)`
+        );
+      }
+    } catch (error) {
+      console.error('Janitor failed:', error);
+    }
+    if (!stopped) {
+      timer = setTimeout(loop, intervalMs);
+    }
+  };
+
+  return {
+    tick,
+    start: () => {
+      if (!stopped) return;
+      stopped = false;
+      console.log(`Janitor started (${describeRetentionPolicy(policy)}; checking every ${Math.round(intervalMs / 60000)}m)`);
+      timer = setTimeout(loop, 0);
+    },
+    stop: () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    },
+  };
+}
+
+// Files are considered newest first, so the per-store and total limits keep the newest ones
+function planFileCleanup(policy: RetentionPolicy, now: Date): FileCleanup[] {
+  const planned: FileCleanup[] = [];
+  const kept: FileCleanup[] = [];
+  const pathOwners = new Map<string, string>(); // Names without a job id were reused by same-day re-exports
+  const keptPerStore = new Map<string, number>();
+
+  for (const job of getRetainedExportFileJobs()) {
+    const filePath = path.resolve(job.csvFilePath!);
+    const file: FileCleanup = {
+      jobId: job.id,
+      storeName: job.storeName,
+      filePath: job.csvFilePath!,
+      fileSize: null,
+      generatedAt: job.completedAt || job.startedAt,
+      reason: '',
+    };
+
+    const newerJobId = pathOwners.get(filePath);
+    if (newerJobId) {
+      planned.push({ ...file, reason: `Overwritten by the export of job ${newerJobId}` });
+      continue;
+    }
+    pathOwners.set(filePath, job.id);
+
+    if (!fs.existsSync(filePath)) {
+      planned.push({ ...file, reason: 'Removed from disk outside the service' });
+      continue;
+    }
+    if (path.relative(EXPORTS_DIR, filePath).startsWith('..')) {
+      continue;
+    }
+
+    file.fileSize = fs.statSync(filePath).size;
+    const storeCount = keptPerStore.get(job.storeName) || 0;
+    if (policy.maxFilesPerStore !== null && storeCount >= policy.maxFilesPerStore) {
+      planned.push({ ...file, reason: `More than ${policy.maxFilesPerStore} files kept for ${job.storeName}` });
+    } else if (policy.maxAgeDays !== null && now.getTime() - Date.parse(file.generatedAt) > policy.maxAgeDays * DAY_MS) {
+      planned.push({ ...file, reason: `Older than ${policy.maxAgeDays} days` });
+    } else {
+      keptPerStore.set(job.storeName, storeCount + 1);
+      kept.push(file);
+    }
+  }
+
+  // Each store's newest file is kept whatever its size, so its latest download keeps working
+  if (policy.maxTotalBytes !== null) {
+    const storesSeen = new Set<string>();
+    let total = 0;
+    for (const file of kept) {
+      const newestOfStore = !storesSeen.has(file.storeName);
+      storesSeen.add(file.storeName);
+      if (!newestOfStore && total + file.fileSize! > policy.maxTotalBytes) {
+        planned.push({ ...file, reason: `Exports over ${policy.maxTotalBytes / MB} MB in total` });
+      } else {
+        total += file.fileSize!;
+      }
+    }
+  }
+
+  return planned;
+}
+
+function deleteExportFile(file: FileCleanup, at: string, actor: AuditActor) {
+  if (file.fileSize !== null) {
+    fs.rmSync(path.resolve(file.filePath), { force: true });
+    fs.rmSync(metadataFileFor(path.resolve(file.filePath)), { force: true });
+    recordAudit(actor, 'file.delete', {
+      storeName: file.storeName,
+      jobId: file.jobId,
+      filePath: file.filePath,
+      details: { reason: file.reason, fileSize: file.fileSize },
+    });
+  }
+  markExportFileDeleted(file.jobId, at, file.reason);
+}
+
+function parseLimit(name: string, options: { integer?: boolean } = {}): number | null {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === '' || Number(value) === 0) return null;
+
+  const limit = Number(value);
+  if (!(limit > 0) || (options.integer && !Number.isInteger(limit))) {
+    throw new Error(`Invalid ${name}: ${value}. Use a positive ${options.integer ? 'whole ' : ''}number, or 0 for no limit`);
+  }
+  return limit;
+}
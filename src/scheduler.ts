@@ -0,0 +1,272 @@
+import { parseCron } from './cron';
+import { exportCustomers } from './export-service';
+import { enqueueFetchJob } from './job-queue';
+import { recordAudit, systemActor } from './audit';
+import { storeConfigs } from './shopify-client';
+import { getCsvProfileNames } from './csv-profiles';
+import { getMaskingPolicy } from './masking';
+import {
+  advanceSchedule,
+  createSchedule,
+  getActiveExportJob,
+  getDueSchedules,
+  getSchedule,
+  recordScheduleRun,
+  updateSchedule,
+} from './database';
+import { ExportJob, Schedule, ScheduleAction, ScheduleOptions, ScheduleRun } from './types';
+
+const SCHEDULER_INTERVAL_MS = parseInt(process.env.SCHEDULER_INTERVAL_MS || '') || 30000;
+// An occurrence noticed later than this after its time is recorded as missed instead of run
+const SCHEDULER_MISFIRE_GRACE_MS = parseInt(process.env.SCHEDULER_MISFIRE_GRACE_MS || '') || 5 * 60 * 1000;
+// Upper bound when counting the occurrences missed while the scheduler was down
+const MAX_COUNTED_MISSED_RUNS = 1000;
+
+export const SCHEDULE_ACTIONS: ScheduleAction[] = ['full', 'sync', 'csv'];
+
+// Returns the current time; tests pass their own to control what is due
+export type Clock = () => Date;
+
+export type Scheduler = {
+  tick(): Promise<ScheduleRun[]>; // Runs whatever is due now; start() calls it on an interval
+  start(): void;
+  stop(): void;
+};
+
+export type SchedulerOptions = {
+  now?: Clock;
+  intervalMs?: number;
+  misfireGraceMs?: number;
+  onJobQueued?: (job: ExportJob) => void; // E.g. to wake the worker
+};
+
+export function createScheduler(options: SchedulerOptions = {}): Scheduler {
+  const now = options.now || (() => new Date());
+  const intervalMs = options.intervalMs ?? SCHEDULER_INTERVAL_MS;
+  const misfireGraceMs = options.misfireGraceMs ?? SCHEDULER_MISFIRE_GRACE_MS;
+  let timer: NodeJS.Timeout | null = null;
+  let stopped = true;
+
+  const tick = async (): Promise<ScheduleRun[]> => {
+    const runs: ScheduleRun[] = [];
+    for (const schedule of getDueSchedules(now())) {
+      try {
+        runs.push(...(await runSchedule(schedule, now(), misfireGraceMs, options.onJobQueued)));
+      } catch (error) {
+        console.error(`Schedule ${schedule.id} (${schedule.storeName}) failed to run:`, error);
+      }
+    }
+    return runs;
+  };
+
+  const loop = async () => {
+    await tick();
+    if (!stopped) {
+      timer = setTimeout(loop, intervalMs);
+    }
+  };
+
+  return {
+    tick,
+    start: () => {
+      if (!stopped) return;
+      stopped = false;
+      console.log(`Scheduler started (checking every ${Math.round(intervalMs / 1000)}s)`);
+      timer = setTimeout(loop, 0);
+    },
+    stop: () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    },
+  };
+}
+
+/**
+ * Runs one due schedule. Of the occurrences between its next run and now,
+ * only the latest is run, and only if it is within the misfire grace period;
+ * the others are recorded together as one missed run.
+ */
+async function runSchedule(
+  schedule: Schedule,
+  now: Date,
+  misfireGraceMs: number,
+  onJobQueued?: (job: ExportJob) => void
+): Promise<ScheduleRun[]> {
+  const cron = parseCron(schedule.cron);
+  const due = [new Date(schedule.nextRunAt!)];
+  for (let next = cron.next(due[0]); next && next <= now && due.length < MAX_COUNTED_MISSED_RUNS; next = cron.next(next)) {
+    due.push(next);
+  }
+
+  const nextRunAt = cron.next(now)?.toISOString() ?? null;
+  if (!advanceSchedule(schedule.id, schedule.nextRunAt!, nextRunAt, now.toISOString())) {
+    return []; // Another scheduler already took this occurrence
+  }
+
+  const latest = due[due.length - 1];
+  const missed = now.getTime() - latest.getTime() > misfireGraceMs ? due : due.slice(0, -1);
+  const runs: ScheduleRun[] = [];
+
+  if (missed.length > 0) {
+    const count = missed.length >= MAX_COUNTED_MISSED_RUNS ? `${MAX_COUNTED_MISSED_RUNS}+` : String(missed.length);
+    const message =
+      missed.length === 1
+        ? `Scheduler was not running at ${missed[0].toISOString()}`
+        : `${count} runs missed between ${missed[0].toISOString()} and ${missed[missed.length - 1].toISOString()}`;
+    console.warn(`Schedule ${schedule.id} (${schedule.storeName}): ${message}`);
+    runs.push(
+      recordScheduleRun({
+        scheduleId: schedule.id,
+        scheduledFor: missed[0].toISOString(),
+        ranAt: now.toISOString(),
+        status: 'missed',
+        jobId: null,
+        message,
+      })
+    );
+  }
+
+  if (missed.length < due.length) {
+    runs.push(await executeSchedule(schedule, latest, now, onJobQueued));
+  }
+
+  return runs;
+}
+
+async function executeSchedule(
+  schedule: Schedule,
+  scheduledFor: Date,
+  now: Date,
+  onJobQueued?: (job: ExportJob) => void
+): Promise<ScheduleRun> {
+  const { storeName, action, options } = schedule;
+  const actor = systemActor(`schedule #${schedule.id}`);
+  const record = (run: Pick<ScheduleRun, 'status' | 'jobId' | 'message'>) =>
+    recordScheduleRun({ scheduleId: schedule.id, scheduledFor: scheduledFor.toISOString(), ranAt: now.toISOString(), ...run });
+
+  // CSV runs are skipped too, so they never write a file from a half-finished fetch
+  const active = getActiveExportJob(storeName);
+  if (active) {
+    console.log(`Schedule ${schedule.id} (${storeName}) skipped: job ${active.id} is ${active.status}`);
+    return record({ status: 'skipped', jobId: active.id, message: `Job ${active.id} was ${active.status}` });
+  }
+
+  if (action === 'csv') {
+    try {
+      const { filePath: file } = await exportCustomers(storeName, { profile: options.profile, masking: options.masking, actor });
+      console.log(`Schedule ${schedule.id} (${storeName}) wrote ${file}`);
+      return record({ status: 'completed', jobId: null, message: file });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Schedule ${schedule.id} (${storeName}) failed: ${message}`);
+      return record({ status: 'failed', jobId: null, message });
+    }
+  }
+
+  const { job, created } = enqueueFetchJob(storeName, {
+    mode: action,
+    strategy: options.strategy,
+    exportCsv: options.exportCsv,
+    profile: options.profile,
+    masking: options.masking,
+  });
+  if (!created) {
+    return record({ status: 'skipped', jobId: job.id, message: `Job ${job.id} was ${job.status}` });
+  }
+
+  console.log(`Schedule ${schedule.id} (${storeName}) queued job ${job.id}`);
+  recordAudit(actor, action === 'full' ? 'export.trigger' : 'sync.trigger', { storeName, jobId: job.id, details: options });
+  onJobQueued?.(job);
+  return record({ status: 'queued', jobId: job.id, message: null });
+}
+
+export type ScheduleRequest = {
+  storeName?: string;
+  cron?: string;
+  action?: string;
+  options?: ScheduleOptions;
+  enabled?: boolean;
+};
+
+/**
+ * Validates and stores a new schedule. Throws on invalid input.
+ */
+export function addSchedule(request: ScheduleRequest, now: Date = new Date()): Schedule {
+  if (!request.storeName || !request.cron || !request.action) {
+    throw new Error('storeName, cron and action are required');
+  }
+
+  const enabled = request.enabled ?? true;
+  const cron = parseCron(request.cron);
+  return createSchedule({
+    storeName: validateStoreName(request.storeName),
+    cron: cron.expression,
+    action: validateAction(request.action),
+    options: validateOptions(request.options || {}),
+    enabled,
+    nextRunAt: enabled ? cron.next(now)?.toISOString() ?? null : null,
+  });
+}
+
+/**
+ * Applies changes to a schedule. Changing the cron expression or re-enabling
+ * it recalculates the next run from now. Throws on invalid input.
+ */
+export function editSchedule(id: number, request: ScheduleRequest, now: Date = new Date()): Schedule | null {
+  const schedule = getSchedule(id);
+  if (!schedule) return null;
+
+  const cron = parseCron(request.cron ?? schedule.cron);
+  const enabled = request.enabled ?? schedule.enabled;
+  const reschedule = request.cron !== undefined || enabled !== schedule.enabled;
+
+  return updateSchedule(id, {
+    storeName: request.storeName !== undefined ? validateStoreName(request.storeName) : undefined,
+    cron: cron.expression,
+    action: request.action !== undefined ? validateAction(request.action) : undefined,
+    options: request.options !== undefined ? validateOptions(request.options) : undefined,
+    enabled,
+    nextRunAt: reschedule ? (enabled ? cron.next(now)?.toISOString() ?? null : null) : undefined,
+  });
+}
+
+function validateStoreName(storeName: string): string {
+  if (!(storeName in storeConfigs)) {
+    throw new Error(`Invalid store name: ${storeName}. Available stores: ${Object.keys(storeConfigs).join(', ')}`);
+  }
+  return storeName;
+}
+
+function validateAction(action: string): ScheduleAction {
+  if (!SCHEDULE_ACTIONS.includes(action as ScheduleAction)) {
+    throw new Error(`Invalid action: ${action}. Available actions: ${SCHEDULE_ACTIONS.join(', ')}`);
+  }
+  return action as ScheduleAction;
+}
+
+// Keeps only the known options, so the stored JSON stays predictable
+function validateOptions(options: ScheduleOptions): ScheduleOptions {
+  const validated: ScheduleOptions = {};
+
+  if (options.strategy !== undefined) {
+    if (options.strategy !== 'paginated' && options.strategy !== 'bulk') {
+      throw new Error(`Invalid fetch strategy: ${options.strategy}. Available strategies: paginated, bulk`);
+    }
+    validated.strategy = options.strategy;
+  }
+  if (options.exportCsv !== undefined) {
+    validated.exportCsv = options.exportCsv === true;
+  }
+  if (options.profile !== undefined) {
+    if (!getCsvProfileNames().includes(options.profile)) {
+      throw new Error(`Invalid CSV profile: ${options.profile}. Available profiles: ${getCsvProfileNames().join(', ')}`);
+    }
+    validated.profile = options.profile;
+  }
+  if (options.masking !== undefined) {
+    getMaskingPolicy(options.masking); // Throws for unknown policies
+    validated.masking = options.masking;
+  }
+
+  return validated;
+}
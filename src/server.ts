@@ -7,23 +7,95 @@ require('dotenv').config({
 import express, { Request, Response } from 'express';
 import * as path from 'path';
 import * as fs from 'fs';
-import { fetchAndSaveCustomers, exportCustomersToCSV } from './export-service';
+import { exportCustomers, streamCustomers } from './export-service';
+import { enqueueFetchJob, requeueJob } from './job-queue';
+import { Worker, startWorker } from './worker';
+import { SCHEDULE_ACTIONS, addSchedule, createScheduler, editSchedule } from './scheduler';
+import {
+  WEBHOOK_EVENTS,
+  addWebhook,
+  createWebhookDispatcher,
+  editWebhook,
+  publicWebhook,
+  queueWebhooksForJobEvents,
+} from './webhooks';
 import {
   getExportJob,
   getExportJobsByStore,
   getLatestExportJob,
   getCustomerCount,
+  getActiveExportJob,
+  initializeDatabase,
+  getCustomerChanges,
+  getJobChangeSummary,
+  requestJobControl,
+  getSchedules,
+  getSchedule,
+  getScheduleRuns,
+  deleteSchedule,
+  getWebhooks,
+  getWebhook,
+  getWebhookDeliveries,
+  deleteWebhook,
+  getApiKeys,
+  getAuditEntries,
+  getDownloadLink,
+  getDownloadLinks,
+  claimDownloadLink,
 } from './database';
 import { storeConfigs } from './shopify-client';
+import { canAccessStore, requestApiKey, requireApiKey, storeOfJob } from './auth';
+import { AUDIT_ACTIONS, apiActor, downloadLinkActor, recordAudit } from './audit';
+import {
+  DownloadLinkState,
+  downloadLinkState,
+  issueDownloadLink,
+  verifyDownloadLinkSignature,
+  withdrawDownloadLink,
+} from './download-links';
+import {
+  DataSubjectQuery,
+  eraseDataSubject,
+  exportDataSubject,
+  getStaleExportFiles,
+  parseDataSubjectQuery,
+  purgeErasedData,
+} from './data-subjects';
+import { AuditAction, DownloadLink, ExportJob, ExportStatus, FetchStrategy, JobControlRequest } from './types';
+import { isFinalJobEvent, subscribeToJob } from './job-events';
+import { DEFAULT_PROFILE_NAME, getCsvProfileNames, loadCsvProfiles } from './csv-profiles';
+import { FILTER_FIELD_NAMES, parseCustomerFilter } from './customer-filter';
+import { createJanitor, fileExpiresAt, loadRetentionPolicy } from './retention';
+import { MASKING_METHODS, getMaskingPolicy, getMaskingPolicyNames, loadMaskingPolicies } from './masking';
+import {
+  EXPORT_FORMATS,
+  contentTypeForFile,
+  contentTypeForFormat,
+  formatForFile,
+  isExportFormat,
+  isStreamFormat,
+  supportsGzip,
+} from './export-formats';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
 // Middleware
 app.use(express.json());
+// Behind a reverse proxy, e.g. TRUST_PROXY=1, so req.ip (and the audit log) has the client's address
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  app.set('trust proxy', /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
+}
+// Every route but /health needs an API key; see requireApiKey on each route for its scope
+
+const FETCH_STRATEGIES: FetchStrategy[] = ['paginated', 'bulk'];
+const RESUMABLE_STATUSES: ExportStatus[] = ['failed', 'paused'];
+const JOB_EVENTS_POLL_MS = 5000;
+const MAX_AUDIT_ENTRIES = 1000;
 
-// Track active exports (in-memory for simplicity)
-const activeExports = new Map<string, boolean>();
+// Runs queued jobs in this process; started once the database is migrated
+let worker: Worker | null = null;
 
 // Health check endpoint
 app.get('/health', (req: Request, res: Response) => {
@@ -31,8 +103,9 @@ app.get('/health', (req: Request, res: Response) => {
 });
 
 // Get available stores
-app.get('/api/stores', (req: Request, res: Response) => {
-  const stores = Object.keys(storeConfigs).map((storeName) => ({
+app.get('/api/stores', requireApiKey('status:read'), (req: Request, res: Response) => {
+  const apiKey = requestApiKey(res);
+  const stores = Object.keys(storeConfigs).filter((storeName) => canAccessStore(apiKey, storeName)).map((storeName) => ({
     name: storeName,
     customerCount: getCustomerCount(storeName),
   }));
@@ -40,10 +113,10 @@ app.get('/api/stores', (req: Request, res: Response) => {
   res.json({ stores });
 });
 
-// Trigger customer export for a store
-app.post('/api/export/:storeName', async (req: Request, res: Response) => {
+// Queue a customer export for a store
+app.post('/api/export/:storeName', requireApiKey('export:trigger'), async (req: Request, res: Response) => {
   const { storeName } = req.params;
-  const { exportCsv = false } = req.body;
+  const { exportCsv = false, strategy = 'paginated' } = req.body;
 
   // Validate store name
   if (!(storeName in storeConfigs)) {
@@ -53,52 +126,39 @@ app.post('/api/export/:storeName', async (req: Request, res: Response) => {
     });
   }
 
-  // Check if export is already running for this store
-  if (activeExports.get(storeName)) {
+  if (!FETCH_STRATEGIES.includes(strategy)) {
+    return res.status(400).json({
+      error: 'Invalid fetch strategy',
+      availableStrategies: FETCH_STRATEGIES,
+    });
+  }
+
+  // Queueing fails if the store already has a pending or running job
+  const { job, created } = enqueueFetchJob(storeName, { strategy, exportCsv });
+  if (!created) {
     return res.status(409).json({
       error: 'Export already in progress for this store',
       storeName,
+      jobId: job.id,
     });
   }
 
-  // Start export in background
-  activeExports.set(storeName, true);
-
-  // Return immediately with job info
-  const latestJob = getLatestExportJob(storeName);
-
-  // Run export in background
-  (async () => {
-    try {
-      console.log(`Starting export for ${storeName}...`);
-      const result = await fetchAndSaveCustomers(storeName);
-      console.log(`Export completed for ${storeName}: ${result.totalCustomers} customers`);
-
-      // Optionally export to CSV
-      if (exportCsv) {
-        await exportCustomersToCSV(storeName, result.jobId);
-        console.log(`CSV export completed for ${storeName}`);
-      }
-    } catch (error) {
-      console.error(`Export failed for ${storeName}:`, error);
-    } finally {
-      activeExports.delete(storeName);
-    }
-  })();
+  recordAudit(apiActor(req, res), 'export.trigger', { storeName, jobId: job.id, details: { strategy, exportCsv } });
+  worker?.wake();
 
   res.json({
-    message: 'Export started',
+    message: 'Export queued',
     storeName,
-    jobId: latestJob?.id || 'pending',
-    status: 'Export running in background. Use /api/status/:storeName to check progress.',
-    downloadUrl: exportCsv ? `/api/download-csv/${storeName}/latest` : null,
+    jobId: job.id,
+    status: 'Export queued for the background worker. Use /api/job/:jobId to check progress.',
+    downloadUrl: exportCsv ? `/api/download-csv/job/${job.id}` : null,
   });
 });
 
-// Resume a failed export
-app.post('/api/export/:storeName/resume', async (req: Request, res: Response) => {
+// Resume a failed or paused export
+app.post('/api/export/:storeName/resume', requireApiKey('export:trigger'), async (req: Request, res: Response) => {
   const { storeName } = req.params;
-  const { exportCsv = false, jobId } = req.body;
+  const { jobId } = req.body;
 
   // Validate store name
   if (!(storeName in storeConfigs)) {
@@ -109,80 +169,122 @@ app.post('/api/export/:storeName/resume', async (req: Request, res: Response) =>
   }
 
   // Check if export is already running for this store
-  if (activeExports.get(storeName)) {
+  const activeJob = getActiveExportJob(storeName);
+  if (activeJob) {
     return res.status(409).json({
       error: 'Export already in progress for this store',
       storeName,
+      jobId: activeJob.id,
     });
   }
 
-  // Get the job to resume (either specified jobId or latest failed job)
+  // Get the job to resume (either specified jobId or latest failed or paused job)
   let jobToResume = jobId ? getExportJob(jobId) : null;
+  if (jobToResume && jobToResume.storeName !== storeName) {
+    jobToResume = null; // The key was only checked against storeName
+  }
   
   if (!jobToResume) {
-    // Find the latest failed job for this store
+    // Find the latest failed or paused job for this store
     const jobs = getExportJobsByStore(storeName, 10);
-    jobToResume = jobs.find(job => job.status === 'failed' || job.status === 'in_progress') || null;
+    jobToResume = jobs.find(job => job.mode !== 'file' && RESUMABLE_STATUSES.includes(job.status)) || null;
   }
 
   if (!jobToResume) {
     return res.status(404).json({
-      error: 'No failed job found to resume',
+      error: 'No failed or paused job found to resume',
       storeName,
       hint: 'Use POST /api/export/:storeName to start a new export',
     });
   }
 
-  if (jobToResume.status !== 'failed' && jobToResume.status !== 'in_progress') {
+  if (!RESUMABLE_STATUSES.includes(jobToResume.status) || jobToResume.mode === 'file') {
     return res.status(400).json({
-      error: 'Can only resume failed or in_progress jobs',
+      error: 'Can only resume failed or paused fetch jobs',
       jobStatus: jobToResume.status,
       jobId: jobToResume.id,
     });
   }
 
-  if (!jobToResume.lastCursor) {
+  // A job paused before its first batch simply starts over, and bulk jobs always do
+  if (jobToResume.status === 'failed' && !jobToResume.lastCursor && jobToResume.fetchStrategy !== 'bulk') {
     return res.status(400).json({
       error: 'Job has no saved cursor to resume from',
       jobId: jobToResume.id,
-      hint: 'The job may have failed or is still in progress before processing any batches. Start a new export instead.',
+      hint: 'The job may have failed before processing any batches. Start a new export instead.',
     });
   }
 
-  // Start resume in background
-  activeExports.set(storeName, true);
-
-  // Run resume in background
-  (async () => {
-    try {
-      console.log(`Resuming export for ${storeName} from cursor (${jobToResume!.processedCustomers} already processed)...`);
-      const result = await fetchAndSaveCustomers(storeName, jobToResume!.id, jobToResume!.lastCursor || undefined);
-      console.log(`Export resumed and completed for ${storeName}: ${result.totalCustomers} total customers`);
-
-      // Optionally export to CSV
-      if (exportCsv) {
-        await exportCustomersToCSV(storeName, result.jobId);
-        console.log(`CSV export completed for ${storeName}`);
-      }
-    } catch (error) {
-      console.error(`Resume failed for ${storeName}:`, error);
-    } finally {
-      activeExports.delete(storeName);
-    }
-  })();
+  // Unless told otherwise, the resumed job does what it was originally queued to do
+  const exportCsv = req.body.exportCsv ?? jobToResume.jobOptions.exportCsv ?? false;
+  requeueJob(jobToResume.id, { exportCsv });
+  recordAudit(apiActor(req, res), 'export.resume', {
+    storeName,
+    jobId: jobToResume.id,
+    details: { exportCsv, resumedFrom: resumedFrom(jobToResume) },
+  });
+  worker?.wake();
 
   res.json({
-    message: 'Export resumed',
+    message: 'Export resume queued',
     storeName,
     jobId: jobToResume.id,
-    resumedFrom: jobToResume.processedCustomers,
-    status: 'Export running in background. Use /api/status/:storeName to check progress.',
+    resumedFrom: resumedFrom(jobToResume),
+    status: 'Export queued for the background worker. Use /api/job/:jobId to check progress.',
     downloadUrl: exportCsv ? `/api/download-csv/job/${jobToResume.id}` : null,
   });
 });
 
+// Incrementally sync customers updated since the last completed job
+app.post('/api/sync/:storeName', requireApiKey('export:trigger'), async (req: Request, res: Response) => {
+  const { storeName } = req.params;
+  const { exportCsv = false, strategy = 'paginated' } = req.body;
+
+  // Validate store name
+  if (!(storeName in storeConfigs)) {
+    return res.status(400).json({
+      error: 'Invalid store name',
+      availableStores: Object.keys(storeConfigs),
+    });
+  }
+
+  if (!FETCH_STRATEGIES.includes(strategy)) {
+    return res.status(400).json({
+      error: 'Invalid fetch strategy',
+      availableStrategies: FETCH_STRATEGIES,
+    });
+  }
+
+  const { job, created } = enqueueFetchJob(storeName, { mode: 'sync', strategy, exportCsv });
+  if (!created) {
+    return res.status(409).json({
+      error: 'Export already in progress for this store',
+      storeName,
+      jobId: job.id,
+    });
+  }
+
+  recordAudit(apiActor(req, res), 'sync.trigger', {
+    storeName,
+    jobId: job.id,
+    details: { strategy, exportCsv, updatedSince: job.updatedSince || undefined },
+  });
+  worker?.wake();
+
+  res.json({
+    message: 'Sync queued',
+    storeName,
+    jobId: job.id,
+    updatedSince: job.updatedSince || null,
+    status: job.updatedSince
+      ? 'Sync queued for the background worker. Use /api/job/:jobId to check progress.'
+      : 'No previous watermark found, the sync will fetch all customers. Use /api/job/:jobId to check progress.',
+    downloadUrl: exportCsv ? `/api/download-csv/job/${job.id}` : null,
+  });
+});
+
 // Get export status for a store
-app.get('/api/status/:storeName', (req: Request, res: Response) => {
+app.get('/api/status/:storeName', requireApiKey('status:read'), (req: Request, res: Response) => {
   const { storeName } = req.params;
 
   // Validate store name
@@ -194,19 +296,20 @@ app.get('/api/status/:storeName', (req: Request, res: Response) => {
   }
 
   const latestJob = getLatestExportJob(storeName);
-  const isExporting = activeExports.get(storeName) || false;
+  const activeJob = getActiveExportJob(storeName);
   const customerCount = getCustomerCount(storeName);
 
   res.json({
     storeName,
-    isExporting,
+    isExporting: activeJob !== null,
+    activeJobId: activeJob?.id || null,
     customerCount,
     latestJob: latestJob || null,
   });
 });
 
 // Get export job details
-app.get('/api/job/:jobId', (req: Request, res: Response) => {
+app.get('/api/job/:jobId', requireApiKey('status:read', storeOfJob), (req: Request, res: Response) => {
   const { jobId } = req.params;
 
   const job = getExportJob(jobId);
@@ -218,8 +321,143 @@ app.get('/api/job/:jobId', (req: Request, res: Response) => {
   res.json({ job });
 });
 
+// Stream a job's progress as Server-Sent Events. Starts with a snapshot of the job,
+// then forwards batch, throttle, status and file events until the job is done.
+app.get('/api/job/:jobId/events', requireApiKey('status:read', storeOfJob), (req: Request, res: Response) => {
+  const { jobId } = req.params;
+
+  const job = getExportJob(jobId);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // Keep nginx from buffering the stream
+  });
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  send('snapshot', { job });
+  if (isJobDone(job)) {
+    return res.end();
+  }
+
+  let last = job;
+  let unsubscribe = () => {};
+  const finish = () => {
+    clearInterval(poll);
+    unsubscribe();
+    res.end();
+  };
+
+  unsubscribe = subscribeToJob(jobId, (event) => {
+    send(event.type, event);
+    if (isFinalJobEvent(job, event)) finish();
+  });
+
+  // Events are only published in this process, so jobs run by a separate worker
+  // (or stopped while queued) are followed through the database instead
+  const poll = setInterval(() => {
+    const current = getExportJob(jobId);
+    if (!current) return finish();
+
+    if (
+      current.status !== last.status ||
+      current.processedCustomers !== last.processedCustomers ||
+      current.csvFilePath !== last.csvFilePath
+    ) {
+      send('snapshot', { job: current });
+    } else {
+      res.write(': keep-alive\n\n');
+    }
+    last = current;
+
+    if (isJobDone(current)) finish();
+  }, JOB_EVENTS_POLL_MS);
+
+  req.on('close', finish);
+});
+
+// Cancel or pause a fetch job. Queued jobs stop immediately; running jobs stop after their current batch.
+app.post('/api/job/:jobId/cancel', requireApiKey('export:trigger', storeOfJob), (req: Request, res: Response) =>
+  controlJob(req, res, 'cancel')
+);
+app.post('/api/job/:jobId/pause', requireApiKey('export:trigger', storeOfJob), (req: Request, res: Response) =>
+  controlJob(req, res, 'pause')
+);
+
+function controlJob(req: Request, res: Response, request: JobControlRequest) {
+  const { jobId } = req.params;
+
+  const job = getExportJob(jobId);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  if (request === 'pause' && job.fetchStrategy === 'bulk') {
+    return res.status(409).json({
+      error: 'Bulk jobs cannot be paused',
+      jobId,
+      hint: 'Bulk operations cannot be resumed from a cursor. Cancel the job instead.',
+    });
+  }
+
+  const updated = requestJobControl(jobId, request);
+  if (!updated) {
+    return res.status(409).json({
+      error: request === 'cancel' ? 'Job cannot be cancelled' : 'Job cannot be paused',
+      jobId,
+      jobStatus: job.status,
+    });
+  }
+
+  // A running job keeps its status until the worker reaches the end of its current batch
+  const requested = updated.controlRequest === request;
+  res.status(requested ? 202 : 200).json({
+    message: requested
+      ? `${request === 'cancel' ? 'Cancellation' : 'Pause'} requested, the job stops after its current batch`
+      : `Job ${updated.status}`,
+    job: updated,
+  });
+}
+
+// Summarize the customer changes detected while a job saved customers
+app.get('/api/job/:jobId/changes', requireApiKey('data:download', storeOfJob), (req: Request, res: Response) => {
+  const { jobId } = req.params;
+  const limit = parseInt(req.query.limit as string) || 100;
+
+  if (!getExportJob(jobId)) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  res.json(getJobChangeSummary(jobId, limit));
+});
+
+// Get the change history of a customer (GID or numeric id), optionally for one field
+app.get('/api/customers/:customerId/history', requireApiKey('data:download'), (req: Request, res: Response) => {
+  const { customerId } = req.params;
+  const field = (req.query.field as string) || undefined;
+  const limit = parseInt(req.query.limit as string) || 100;
+
+  const apiKey = requestApiKey(res);
+  const changes = getCustomerChanges(customerId, { fieldPrefix: field, limit }).filter((change) =>
+    canAccessStore(apiKey, change.storeName)
+  );
+
+  res.json({
+    customerId,
+    field: field || null,
+    changes,
+  });
+});
+
 // Get export history for a store
-app.get('/api/history/:storeName', (req: Request, res: Response) => {
+app.get('/api/history/:storeName', requireApiKey('status:read'), (req: Request, res: Response) => {
   const { storeName } = req.params;
   const limit = parseInt(req.query.limit as string) || 10;
 
@@ -240,7 +478,7 @@ app.get('/api/history/:storeName', (req: Request, res: Response) => {
 });
 
 // Export customers to CSV from database (without re-fetching from Shopify)
-app.post('/api/export-csv/:storeName', async (req: Request, res: Response) => {
+app.post('/api/export-csv/:storeName', requireApiKey('export:trigger'), async (req: Request, res: Response) => {
   const { storeName } = req.params;
 
   // Validate store name
@@ -251,13 +489,64 @@ app.post('/api/export-csv/:storeName', async (req: Request, res: Response) => {
     });
   }
 
+  const profile = (req.body?.profile || req.query.profile || DEFAULT_PROFILE_NAME) as string;
+  const format = (req.body?.format || req.query.format || 'csv') as string;
+  const availableProfiles = getCsvProfileNames();
+
+  const gzip = req.body?.gzip === true || req.query.gzip === 'true';
+  const filter = (req.body?.filter || req.query.filter || undefined) as string | undefined;
+  const includeDeleted = req.body?.includeDeleted === true || req.query.includeDeleted === 'true';
+  const masking = (req.body?.masking || req.query.masking || undefined) as string | undefined;
+
+  if (!isExportFormat(format)) {
+    return res.status(400).json({
+      error: 'Invalid export format',
+      availableFormats: EXPORT_FORMATS,
+    });
+  }
+
+  if (gzip && !supportsGzip(format)) {
+    return res.status(400).json({
+      error: 'Gzip output is only supported for csv and jsonl exports',
+      format,
+    });
+  }
+
+  if (!availableProfiles.includes(profile)) {
+    return res.status(400).json({
+      error: 'Invalid CSV profile',
+      availableProfiles,
+    });
+  }
+
+  const inputError = validateFilter(filter) || validateMasking(masking);
+  if (inputError) {
+    return res.status(400).json(inputError);
+  }
+
   try {
-    const csvPath = await exportCustomersToCSV(storeName);
+    const { filePath, jobId } = await exportCustomers(storeName, {
+      profile,
+      format,
+      gzip,
+      filter,
+      includeDeleted,
+      masking,
+      actor: apiActor(req, res),
+    });
     res.json({
-      message: 'CSV export completed',
+      message: `${format.toUpperCase()} export completed`,
       storeName,
-      filePath: csvPath,
-      downloadUrl: `/api/download-csv/${storeName}/latest`,
+      profile,
+      format,
+      gzip,
+      filter: filter || null,
+      includeDeleted,
+      masking: masking || null,
+      filePath,
+      jobId,
+      // The job's own file; the store's latest file may be a later export with other options
+      downloadUrl: `/api/download-csv/job/${jobId}`,
     });
   } catch (error) {
     console.error(`CSV export error:`, error);
@@ -268,8 +557,118 @@ app.post('/api/export-csv/:storeName', async (req: Request, res: Response) => {
   }
 });
 
+// List available CSV column profiles
+app.get('/api/csv-profiles', requireApiKey('status:read'), (req: Request, res: Response) => {
+  try {
+    const profiles = Object.values(loadCsvProfiles()).map((profile) => ({
+      name: profile.name,
+      description: profile.description || null,
+      headers: profile.columns.map((column) => column.header),
+    }));
+
+    res.json({ defaultProfile: DEFAULT_PROFILE_NAME, profiles });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to load CSV profiles',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// List masking policies with the method applied to each field
+app.get('/api/masking-policies', requireApiKey('status:read'), (req: Request, res: Response) => {
+  try {
+    res.json({ policies: Object.values(loadMaskingPolicies()), methods: MASKING_METHODS });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to load masking policies',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// Stream customers straight from the database as CSV or JSONL, without writing a file
+app.get('/api/stores/:storeName/customers.:format', requireApiKey('data:download'), async (req: Request, res: Response) => {
+  const { storeName, format } = req.params;
+
+  // Validate store name
+  if (!(storeName in storeConfigs)) {
+    return res.status(400).json({
+      error: 'Invalid store name',
+      availableStores: Object.keys(storeConfigs),
+    });
+  }
+
+  if (!isStreamFormat(format)) {
+    return res.status(400).json({
+      error: 'Invalid stream format',
+      availableFormats: ['csv', 'jsonl'],
+    });
+  }
+
+  const profile = (req.query.profile || DEFAULT_PROFILE_NAME) as string;
+  const availableProfiles = getCsvProfileNames();
+
+  if (!availableProfiles.includes(profile)) {
+    return res.status(400).json({
+      error: 'Invalid CSV profile',
+      availableProfiles,
+    });
+  }
+
+  const filter = (req.query.filter || undefined) as string | undefined;
+  const includeDeleted = req.query.includeDeleted === 'true';
+  const masking = (req.query.masking || undefined) as string | undefined;
+  const inputError = validateFilter(filter) || validateMasking(masking);
+  if (inputError) {
+    return res.status(400).json(inputError);
+  }
+
+  // Compress when the client accepts it, or when explicitly asked to
+  const gzip = req.query.gzip === 'true' || /\bgzip\b/.test(req.headers['accept-encoding'] || '');
+  const suffix = profile !== DEFAULT_PROFILE_NAME && format === 'csv' ? `-${profile}` : '';
+  const maskingSuffix = masking ? `-masked-${masking}` : '';
+  const fileName = `customers-${storeName}${suffix}${maskingSuffix}-${new Date().toISOString().split('T')[0]}.${format}`;
+
+  // No Content-Length, so Node sends the body with chunked transfer encoding
+  res.setHeader('Content-Type', `${contentTypeForFormat(format)}; charset=utf-8`);
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  res.setHeader('Vary', 'Accept-Encoding');
+  if (gzip) {
+    res.setHeader('Content-Encoding', 'gzip');
+  }
+  // A stream has no file to carry metadata, so the policy goes in a header
+  if (masking) {
+    res.setHeader('X-Masking-Policy', masking);
+  }
+
+  // Recorded up front, since rows reach the client before the stream finishes
+  recordAudit(apiActor(req, res), 'customers.stream', {
+    storeName,
+    details: { format, profile, filter, includeDeleted, masking },
+  });
+
+  try {
+    const rows = await streamCustomers(storeName, res, { format, profile, gzip, filter, includeDeleted, masking });
+    console.log(`Streamed ${rows} customers for ${storeName} as ${format}`);
+  } catch (error) {
+    console.error(`Stream export error:`, error);
+    if (!res.headersSent) {
+      res.removeHeader('Content-Encoding');
+      res.removeHeader('Content-Disposition');
+      res.status(500).json({
+        error: 'Stream export failed',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    } else {
+      // The status line has gone out, so the only way to signal failure is to cut the response short
+      res.destroy();
+    }
+  }
+});
+
 // Download CSV file by job ID
-app.get('/api/download-csv/job/:jobId', (req: Request, res: Response) => {
+app.get('/api/download-csv/job/:jobId', requireApiKey('data:download', storeOfJob), (req: Request, res: Response) => {
   const { jobId } = req.params;
 
   const job = getExportJob(jobId);
@@ -286,6 +685,10 @@ app.get('/api/download-csv/job/:jobId', (req: Request, res: Response) => {
     });
   }
 
+  if (job.fileDeletedAt) {
+    return fileGone(res, job);
+  }
+
   const filePath = path.resolve(job.csvFilePath);
 
   // Check if file exists
@@ -299,8 +702,10 @@ app.get('/api/download-csv/job/:jobId', (req: Request, res: Response) => {
   // Get filename from path
   const fileName = path.basename(filePath);
 
+  recordAudit(apiActor(req, res), 'file.download', { storeName: job.storeName, jobId, filePath: job.csvFilePath });
+
   // Set headers for file download
-  res.setHeader('Content-Type', 'text/csv');
+  res.setHeader('Content-Type', contentTypeForFile(filePath));
   res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
 
   // Send file
@@ -318,7 +723,7 @@ app.get('/api/download-csv/job/:jobId', (req: Request, res: Response) => {
 });
 
 // Download latest CSV file for a store
-app.get('/api/download-csv/:storeName/latest', (req: Request, res: Response) => {
+app.get('/api/download-csv/:storeName/latest', requireApiKey('data:download'), (req: Request, res: Response) => {
   const { storeName } = req.params;
 
   // Validate store name
@@ -348,6 +753,10 @@ app.get('/api/download-csv/:storeName/latest', (req: Request, res: Response) =>
     });
   }
 
+  if (latestJob.fileDeletedAt) {
+    return fileGone(res, latestJob);
+  }
+
   const filePath = path.resolve(latestJob.csvFilePath);
 
   // Check if file exists
@@ -361,8 +770,15 @@ app.get('/api/download-csv/:storeName/latest', (req: Request, res: Response) =>
   // Get filename from path
   const fileName = path.basename(filePath);
 
+  recordAudit(apiActor(req, res), 'file.download', {
+    storeName,
+    jobId: latestJob.id,
+    filePath: latestJob.csvFilePath,
+    details: { latest: true },
+  });
+
   // Set headers for file download
-  res.setHeader('Content-Type', 'text/csv');
+  res.setHeader('Content-Type', contentTypeForFile(filePath));
   res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
 
   // Send file
@@ -379,8 +795,107 @@ app.get('/api/download-csv/:storeName/latest', (req: Request, res: Response) =>
   });
 });
 
-// List all CSV files for a store
-app.get('/api/csv-files/:storeName', (req: Request, res: Response) => {
+// Signed links to a job's export file, for sharing it without an API key.
+// The URL is only returned when a link is issued.
+app.post('/api/job/:jobId/download-links', requireApiKey('data:download', storeOfJob), (req: Request, res: Response) => {
+  const { jobId } = req.params;
+  if (!getExportJob(jobId)) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  try {
+    const { link, url } = issueDownloadLink(jobId, req.body || {}, apiActor(req, res));
+    res.status(201).json({ link: { ...link, state: downloadLinkState(link) }, url });
+  } catch (error) {
+    res.status(400).json({
+      error: 'Invalid download link',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+app.get('/api/job/:jobId/download-links', requireApiKey('data:download', storeOfJob), (req: Request, res: Response) => {
+  const { jobId } = req.params;
+  if (!getExportJob(jobId)) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  const links = getDownloadLinks(jobId).map((link) => ({ ...link, state: downloadLinkState(link) }));
+  res.json({ jobId, links, count: links.length });
+});
+
+app.delete('/api/job/:jobId/download-links/:linkId', requireApiKey('data:download', storeOfJob), (req: Request, res: Response) => {
+  const { jobId, linkId } = req.params;
+  if (!withdrawDownloadLink(jobId, Number(linkId), apiActor(req, res))) {
+    return res.status(404).json({ error: 'Active download link not found', jobId, linkId });
+  }
+  res.json({ message: 'Download link revoked' });
+});
+
+// Download through a signed link. The link is the credential, so no API key is
+// needed, and answers leave out server paths.
+app.get('/api/download/:linkId', (req: Request, res: Response) => {
+  const link = getDownloadLink(Number(req.params.linkId));
+  const expires = Number(req.query.expires);
+  const signature = String(req.query.signature || '');
+
+  // Unknown links and bad signatures get the same answer, so link ids can't be probed
+  if (
+    !link ||
+    !verifyDownloadLinkSignature(link.id, link.jobId, expires, signature) ||
+    Date.parse(link.expiresAt) !== expires * 1000
+  ) {
+    return res.status(403).json({ error: 'Invalid download link' });
+  }
+
+  const state = downloadLinkState(link);
+  if (state !== 'active') {
+    return linkGone(res, state, link);
+  }
+
+  const job = getExportJob(link.jobId);
+  if (!job || job.fileDeletedAt) {
+    return res.status(410).json({
+      error: 'Export file was deleted',
+      message: job ? `The file behind this link was deleted: ${job.fileDeletedReason}` : 'The export behind this link was deleted',
+    });
+  }
+
+  const filePath = path.resolve(job.csvFilePath!);
+  if (!fs.existsSync(filePath)) {
+    return res.status(404).json({ error: 'Export file not found' });
+  }
+
+  // Counted before sending, so a single-use link can't be used by two requests at once
+  if (!claimDownloadLink(link.id, new Date().toISOString())) {
+    return linkGone(res, downloadLinkState(getDownloadLink(link.id)!), link);
+  }
+
+  recordAudit(downloadLinkActor(req, link), 'file.download', {
+    storeName: job.storeName,
+    jobId: job.id,
+    filePath: job.csvFilePath,
+    details: { downloadLinkId: link.id },
+  });
+
+  res.setHeader('Content-Type', contentTypeForFile(filePath));
+  res.setHeader('Content-Disposition', `attachment; filename="${path.basename(filePath)}"`);
+
+  res.sendFile(filePath, (err) => {
+    if (err) {
+      console.error(`Error sending file:`, err);
+      if (!res.headersSent) {
+        res.status(500).json({
+          error: 'Error downloading file',
+          message: err.message,
+        });
+      }
+    }
+  });
+});
+
+// List all export files (any format) for a store
+app.get('/api/csv-files/:storeName', requireApiKey('status:read'), (req: Request, res: Response) => {
   const { storeName } = req.params;
 
   // Validate store name
@@ -393,18 +908,23 @@ app.get('/api/csv-files/:storeName', (req: Request, res: Response) => {
 
   // Get all jobs with CSV files for this store
   const jobs = getExportJobsByStore(storeName, 100); // Get more jobs to find CSV files
+  const retention = loadRetentionPolicy();
   const csvFiles = jobs
-    .filter(job => job.csvFilePath && fs.existsSync(path.resolve(job.csvFilePath)))
+    .filter(job => job.csvFilePath && !job.fileDeletedAt && fs.existsSync(path.resolve(job.csvFilePath)))
     .map(job => {
       const filePath = path.resolve(job.csvFilePath!);
       const stats = fs.statSync(filePath);
+      const createdAt = job.completedAt || job.startedAt;
       return {
         jobId: job.id,
         fileName: path.basename(filePath),
+        format: formatForFile(filePath),
         filePath: job.csvFilePath,
         fileSize: stats.size,
         fileSizeFormatted: formatFileSize(stats.size),
-        createdAt: job.completedAt || job.startedAt,
+        createdAt,
+        ageDays: Math.floor((Date.now() - Date.parse(createdAt)) / (24 * 60 * 60 * 1000)),
+        expiresAt: fileExpiresAt(createdAt, retention), // Null unless RETENTION_MAX_AGE_DAYS is set
         downloadUrl: `/api/download-csv/job/${job.id}`,
       };
     })
@@ -417,6 +937,264 @@ app.get('/api/csv-files/:storeName', (req: Request, res: Response) => {
   });
 });
 
+// Recurring exports. Schedules are checked by the scheduler started with the server.
+app.get('/api/schedules', requireApiKey('admin'), (req: Request, res: Response) => {
+  const storeName = req.query.storeName as string | undefined;
+  const schedules = getSchedules(storeName);
+  res.json({ schedules, count: schedules.length });
+});
+
+app.post('/api/schedules', requireApiKey('admin'), (req: Request, res: Response) => {
+  try {
+    const schedule = addSchedule(req.body);
+    res.status(201).json({ schedule });
+  } catch (error) {
+    res.status(400).json({
+      error: 'Invalid schedule',
+      message: error instanceof Error ? error.message : String(error),
+      availableActions: SCHEDULE_ACTIONS,
+    });
+  }
+});
+
+app.get('/api/schedules/:scheduleId', requireApiKey('admin'), (req: Request, res: Response) => {
+  const schedule = getSchedule(Number(req.params.scheduleId));
+  if (!schedule) {
+    return res.status(404).json({ error: 'Schedule not found' });
+  }
+
+  res.json({ schedule, runs: getScheduleRuns(schedule.id, 10) });
+});
+
+app.patch('/api/schedules/:scheduleId', requireApiKey('admin'), (req: Request, res: Response) => {
+  try {
+    const schedule = editSchedule(Number(req.params.scheduleId), req.body);
+    if (!schedule) {
+      return res.status(404).json({ error: 'Schedule not found' });
+    }
+    res.json({ schedule });
+  } catch (error) {
+    res.status(400).json({
+      error: 'Invalid schedule',
+      message: error instanceof Error ? error.message : String(error),
+      availableActions: SCHEDULE_ACTIONS,
+    });
+  }
+});
+
+app.delete('/api/schedules/:scheduleId', requireApiKey('admin'), (req: Request, res: Response) => {
+  if (!deleteSchedule(Number(req.params.scheduleId))) {
+    return res.status(404).json({ error: 'Schedule not found' });
+  }
+  res.json({ message: 'Schedule deleted' });
+});
+
+// Executed, skipped and missed runs, newest first
+app.get('/api/schedules/:scheduleId/runs', requireApiKey('admin'), (req: Request, res: Response) => {
+  const schedule = getSchedule(Number(req.params.scheduleId));
+  if (!schedule) {
+    return res.status(404).json({ error: 'Schedule not found' });
+  }
+
+  const limit = parseInt(req.query.limit as string) || 20;
+  const runs = getScheduleRuns(schedule.id, limit);
+  res.json({ scheduleId: schedule.id, runs, count: runs.length });
+});
+
+// Outgoing notifications. Secrets are only returned when a webhook is created.
+app.get('/api/webhooks', requireApiKey('admin'), (req: Request, res: Response) => {
+  const storeName = req.query.storeName as string | undefined;
+  const webhooks = getWebhooks(storeName).map(publicWebhook);
+  res.json({ webhooks, count: webhooks.length });
+});
+
+app.post('/api/webhooks', requireApiKey('admin'), (req: Request, res: Response) => {
+  try {
+    const webhook = addWebhook(req.body);
+    res.status(201).json({ webhook });
+  } catch (error) {
+    res.status(400).json({
+      error: 'Invalid webhook',
+      message: error instanceof Error ? error.message : String(error),
+      availableEvents: WEBHOOK_EVENTS,
+    });
+  }
+});
+
+app.patch('/api/webhooks/:webhookId', requireApiKey('admin'), (req: Request, res: Response) => {
+  try {
+    const webhook = editWebhook(Number(req.params.webhookId), req.body);
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+    res.json({ webhook: publicWebhook(webhook) });
+  } catch (error) {
+    res.status(400).json({
+      error: 'Invalid webhook',
+      message: error instanceof Error ? error.message : String(error),
+      availableEvents: WEBHOOK_EVENTS,
+    });
+  }
+});
+
+app.delete('/api/webhooks/:webhookId', requireApiKey('admin'), (req: Request, res: Response) => {
+  if (!deleteWebhook(Number(req.params.webhookId))) {
+    return res.status(404).json({ error: 'Webhook not found' });
+  }
+  res.json({ message: 'Webhook deleted' });
+});
+
+// Delivery attempts, newest first
+app.get('/api/webhooks/:webhookId/deliveries', requireApiKey('admin'), (req: Request, res: Response) => {
+  const webhook = getWebhook(Number(req.params.webhookId));
+  if (!webhook) {
+    return res.status(404).json({ error: 'Webhook not found' });
+  }
+
+  const limit = parseInt(req.query.limit as string) || 50;
+  const deliveries = getWebhookDeliveries(webhook.id, limit);
+  res.json({ webhookId: webhook.id, deliveries, count: deliveries.length });
+});
+
+// Who triggered exports and downloaded customer data, newest first
+app.get('/api/audit', requireApiKey('admin'), (req: Request, res: Response) => {
+  const { storeName, action, actor, jobId, since, until } = req.query as Record<string, string | undefined>;
+  const limit = Math.min(parseInt(req.query.limit as string) || 100, MAX_AUDIT_ENTRIES);
+  const offset = parseInt(req.query.offset as string) || 0;
+
+  if (action && !AUDIT_ACTIONS.includes(action as AuditAction)) {
+    return res.status(400).json({
+      error: 'Invalid audit action',
+      availableActions: AUDIT_ACTIONS,
+    });
+  }
+
+  for (const [name, value] of Object.entries({ since, until })) {
+    if (value && isNaN(Date.parse(value))) {
+      return res.status(400).json({ error: `Invalid ${name} timestamp`, value });
+    }
+  }
+
+  const entries = getAuditEntries({
+    storeName,
+    action: action as AuditAction | undefined,
+    actor,
+    jobId,
+    since: since && new Date(since).toISOString(),
+    until: until && new Date(until).toISOString(),
+    limit,
+    offset,
+  });
+  res.json({ entries, count: entries.length, limit, offset });
+});
+
+// Data subjects are looked up in the body rather than the URL, so emails and phone numbers stay out of access logs
+app.post('/api/data-subjects/export', requireApiKey('admin'), (req: Request, res: Response) => {
+  const query = parseSubjectQuery(req, res);
+  if (!query) return;
+  res.json(exportDataSubject(query, apiActor(req, res)));
+});
+
+app.post('/api/data-subjects/erase', requireApiKey('admin'), (req: Request, res: Response) => {
+  const query = parseSubjectQuery(req, res);
+  if (!query) return;
+  res.json(eraseDataSubject(query, apiActor(req, res)));
+});
+
+// Retries the vacuum of an erasure that answered purgePending: true
+app.post('/api/data-subjects/purge', requireApiKey('admin'), (req: Request, res: Response) => {
+  if (!purgeErasedData()) {
+    return res.status(409).json({ error: 'The database is in use, e.g. by an export; try again later', purgePending: true });
+  }
+  res.json({ purgePending: false });
+});
+
+app.get('/api/data-subjects/stale-files', requireApiKey('admin'), (req: Request, res: Response) => {
+  const files = getStaleExportFiles();
+  res.json({ files, count: files.length });
+});
+
+// Answers 400 and returns null when the body doesn't name exactly one email, phone or customerId
+function parseSubjectQuery(req: Request, res: Response): DataSubjectQuery | null {
+  try {
+    return parseDataSubjectQuery(req.body || {});
+  } catch (error) {
+    res.status(400).json({
+      error: 'Invalid data subject query',
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+// A job is done once it left the queue and no worker holds it, i.e. any CSV it writes is written
+function isJobDone(job: ExportJob): boolean {
+  return job.status !== 'pending' && job.status !== 'in_progress' && !job.leaseOwner;
+}
+
+// Bulk jobs run their operation again from the start when resumed
+function resumedFrom(job: ExportJob): number {
+  return job.fetchStrategy === 'bulk' ? 0 : job.processedCustomers;
+}
+
+// Returns a 400 body when the masking policy doesn't exist or can't be applied
+function validateMasking(masking: string | undefined) {
+  if (!masking) return null;
+  try {
+    getMaskingPolicy(masking);
+    return null;
+  } catch (error) {
+    return {
+      error: 'Invalid masking policy',
+      message: error instanceof Error ? error.message : String(error),
+      availablePolicies: getMaskingPolicyNames(),
+    };
+  }
+}
+
+// Returns a 400 body when a filter expression can't be parsed
+function validateFilter(filter: string | undefined) {
+  if (!filter) return null;
+  try {
+    parseCustomerFilter(filter);
+    return null;
+  } catch (error) {
+    return {
+      error: 'Invalid filter',
+      message: error instanceof Error ? error.message : String(error),
+      availableFields: FILTER_FIELD_NAMES,
+    };
+  }
+}
+
+// 410 for a file the retention janitor deleted, saying when and why
+function fileGone(res: Response, job: ExportJob) {
+  return res.status(410).json({
+    error: 'Export file was deleted',
+    message: `${path.basename(job.csvFilePath!)} was deleted on ${job.fileDeletedAt}: ${job.fileDeletedReason}`,
+    jobId: job.id,
+    filePath: job.csvFilePath,
+    deletedAt: job.fileDeletedAt,
+    reason: job.fileDeletedReason,
+    hint: `Generate a new file using POST /api/export-csv/${job.storeName}`,
+  });
+}
+
+// 410 for a revoked, expired or used link
+function linkGone(res: Response, state: DownloadLinkState, link: DownloadLink) {
+  const messages: Record<DownloadLinkState, string> = {
+    active: '',
+    revoked: `This link was revoked on ${link.revokedAt}`,
+    expired: `This link expired at ${link.expiresAt}`,
+    used: 'This link could only be used once and has already been used',
+  };
+  return res.status(410).json({
+    error: 'Download link no longer works',
+    message: `${messages[state]}. Ask whoever sent it for a new one.`,
+    state,
+  });
+}
+
 // Helper function to format file size
 function formatFileSize(bytes: number): string {
   if (bytes === 0) return '0 Bytes';
@@ -427,15 +1205,17 @@ function formatFileSize(bytes: number): string {
 }
 
 // Get all export statuses
-app.get('/api/status', (req: Request, res: Response) => {
-  const allStores = Object.keys(storeConfigs).map((storeName) => {
+app.get('/api/status', requireApiKey('status:read'), (req: Request, res: Response) => {
+  const apiKey = requestApiKey(res);
+  const allStores = Object.keys(storeConfigs).filter((storeName) => canAccessStore(apiKey, storeName)).map((storeName) => {
     const latestJob = getLatestExportJob(storeName);
-    const isExporting = activeExports.get(storeName) || false;
+    const activeJob = getActiveExportJob(storeName);
     const customerCount = getCustomerCount(storeName);
 
     return {
       storeName,
-      isExporting,
+      isExporting: activeJob !== null,
+      activeJobId: activeJob?.id || null,
       customerCount,
       latestJob: latestJob || null,
     };
@@ -453,6 +1233,14 @@ app.use((err: any, req: Request, res: Response, next: any) => {
   });
 });
 
+// Apply pending migrations before serving; refuses to run against a newer schema
+try {
+  initializeDatabase();
+} catch (error) {
+  console.error(`\n❌ ${error instanceof Error ? error.message : error}\n`);
+  process.exit(1);
+}
+
 // Verify environment variables are loaded
 const configuredStores = Object.keys(storeConfigs).filter((storeName) => {
   const config = storeConfigs[storeName];
@@ -464,6 +1252,22 @@ if (configuredStores.length === 0) {
   console.error('Please check your .env file and ensure it has the required variables.\n');
 }
 
+if (!getApiKeys().some((apiKey) => !apiKey.revokedAt)) {
+  console.error('\n⚠️  WARNING: No API keys exist, so every API request will be rejected.');
+  console.error('Create one with: npm run export -- keys create <name> --scopes admin\n');
+}
+
+queueWebhooksForJobEvents();
+worker = startWorker();
+createScheduler({ onJobQueued: () => worker?.wake() }).start();
+createWebhookDispatcher().start();
+try {
+  createJanitor().start();
+} catch (error) {
+  console.error(`\n❌ ${error instanceof Error ? error.message : error}\n`);
+  process.exit(1);
+}
+
 // Start server
 app.listen(PORT, () => {
   console.log(`\n🚀 Customer Export Service started`);
@@ -475,19 +1279,42 @@ app.listen(PORT, () => {
     console.log(`⚠️  Unconfigured stores: ${unconfigured.join(', ')}`);
   }
   
-  console.log(`\nEndpoints:`);
+  console.log(`\nEndpoints (all but /health need an API key, see "keys create"):`);
   console.log(`  GET  /health                          - Health check`);
   console.log(`  GET  /api/stores                      - List all stores`);
   console.log(`  POST /api/export/:storeName           - Start export for a store`);
-  console.log(`  POST /api/export/:storeName/resume    - Resume failed export`);
+  console.log(`  POST /api/export/:storeName/resume    - Resume failed or paused export`);
+  console.log(`  POST /api/sync/:storeName             - Sync customers updated since last job`);
   console.log(`  GET  /api/status/:storeName           - Get export status`);
   console.log(`  GET  /api/status                      - Get all store statuses`);
   console.log(`  GET  /api/job/:jobId                  - Get job details`);
+  console.log(`  GET  /api/job/:jobId/events           - Stream job progress (Server-Sent Events)`);
+  console.log(`  POST /api/job/:jobId/cancel           - Cancel a queued, running or paused job`);
+  console.log(`  POST /api/job/:jobId/pause            - Pause a queued or running job`);
+  console.log(`  GET  /api/job/:jobId/changes          - Summarize customer changes in a job`);
   console.log(`  GET  /api/history/:storeName          - Get export history`);
-  console.log(`  POST /api/export-csv/:storeName       - Export to CSV from database`);
+  console.log(`  GET  /api/customers/:customerId/history - Get a customer's change history`);
+  console.log(`  POST /api/export-csv/:storeName       - Export to CSV, JSONL, XLSX or Parquet from database`);
+  console.log(`  GET  /api/csv-profiles                - List CSV column profiles`);
+  console.log(`  GET  /api/masking-policies            - List PII masking policies`);
+  console.log(`  GET  /api/stores/:storeName/customers.csv - Stream CSV (or .jsonl) from database`);
   console.log(`  GET  /api/download-csv/:storeName/latest - Download latest CSV`);
   console.log(`  GET  /api/download-csv/job/:jobId     - Download CSV by job ID`);
-  console.log(`  GET  /api/csv-files/:storeName        - List all CSV files for store`);
+  console.log(`  GET  /api/csv-files/:storeName        - List all export files for store`);
+  console.log(`  POST /api/job/:jobId/download-links   - Issue an expiring download link (GET to list)`);
+  console.log(`  DELETE /api/job/:jobId/download-links/:linkId - Revoke a download link`);
+  console.log(`  GET  /api/download/:linkId            - Download through a signed link (no API key)`);
+  console.log(`  GET  /api/schedules                   - List schedules (POST to create)`);
+  console.log(`  GET  /api/schedules/:scheduleId       - Get a schedule (PATCH to change, DELETE to remove)`);
+  console.log(`  GET  /api/schedules/:scheduleId/runs  - List a schedule's runs`);
+  console.log(`  GET  /api/webhooks                    - List webhooks (POST to create)`);
+  console.log(`  PATCH /api/webhooks/:webhookId        - Change a webhook (DELETE to remove)`);
+  console.log(`  GET  /api/webhooks/:webhookId/deliveries - List a webhook's delivery attempts`);
+  console.log(`  GET  /api/audit                       - Search the audit log of exports and downloads`);
+  console.log(`  POST /api/data-subjects/export        - Everything held about a customer, by email, phone or id`);
+  console.log(`  POST /api/data-subjects/erase         - Erase a customer from every store`);
+  console.log(`  POST /api/data-subjects/purge         - Retry the vacuum of an erasure that is still pending`);
+  console.log(`  GET  /api/data-subjects/stale-files   - Export files to regenerate after erasures`);
   console.log(`\n`);
 });
 
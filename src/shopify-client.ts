@@ -89,3 +89,21 @@ export function clearShopifyClients() {
   });
 }
 
+
+/**
+ * Throws when a response carries GraphQL errors (they can arrive in different formats)
+ */
+export function throwIfGraphQLErrors(response: any) {
+  if (!response?.errors) return;
+
+  // If errors is an object with graphQLErrors property
+  if (response.errors.graphQLErrors && response.errors.graphQLErrors.length > 0) {
+    console.error(`GraphQL errors:`, JSON.stringify(response.errors.graphQLErrors, null, 2));
+    throw new Error(`GraphQL Error: ${JSON.stringify(response.errors.graphQLErrors)}`);
+  }
+  // If errors is an array
+  if (Array.isArray(response.errors) && response.errors.length > 0) {
+    console.error(`GraphQL errors:`, JSON.stringify(response.errors, null, 2));
+    throw new Error(`GraphQL Error: ${JSON.stringify(response.errors)}`);
+  }
+}
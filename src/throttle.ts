@@ -0,0 +1,89 @@
+import { AdminApiClient } from '@shopify/admin-api-client';
+
+// Used when a response carries no cost extension to compute a wait from
+const FALLBACK_DELAY_MS = 500;
+const MAX_THROTTLE_RETRIES = 10;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60000;
+
+export type ThrottleStats = {
+  waitMs: number; // Total time spent waiting for the cost bucket to refill
+  throttledCount: number; // Number of THROTTLED responses retried
+  onWait?: (waitMs: number, reason: 'throttled' | 'cost') => void; // Called before each wait
+};
+
+type ThrottleStatus = {
+  maximumAvailable: number;
+  currentlyAvailable: number;
+  restoreRate: number;
+};
+
+/**
+ * Sends a GraphQL request and retries THROTTLED responses with exponential
+ * backoff instead of surfacing them as errors
+ */
+export async function throttledRequest(
+  shopify: AdminApiClient,
+  query: string,
+  variables: Record<string, any>,
+  stats: ThrottleStats
+): Promise<any> {
+  for (let attempt = 0; ; attempt++) {
+    const response = (await shopify.request(query, { variables })) as any;
+
+    if (!isThrottled(response)) {
+      return response;
+    }
+
+    if (attempt >= MAX_THROTTLE_RETRIES) {
+      throw new Error(`Request still throttled after ${MAX_THROTTLE_RETRIES} retries`);
+    }
+
+    stats.throttledCount++;
+
+    // Wait at least until the bucket has restored enough for this query
+    const backoffMs = Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+    const delayMs = Math.max(backoffMs, costBasedDelay(response));
+
+    console.warn(`Throttled by Shopify, retrying in ${delayMs}ms (attempt ${attempt + 1})`);
+    await wait(delayMs, stats, 'throttled');
+  }
+}
+
+/**
+ * Waits until the cost bucket can afford another request like the one that
+ * produced this response
+ */
+export async function waitForQueryCost(response: any, stats: ThrottleStats): Promise<void> {
+  const delayMs = response?.extensions?.cost ? costBasedDelay(response) : FALLBACK_DELAY_MS;
+  if (delayMs > 0) {
+    await wait(delayMs, stats, 'cost');
+  }
+}
+
+/**
+ * Milliseconds until currentlyAvailable covers the requested query cost at
+ * the bucket's restore rate
+ */
+export function costBasedDelay(response: any): number {
+  const cost = response?.extensions?.cost;
+  const throttleStatus: ThrottleStatus | undefined = cost?.throttleStatus;
+  if (!throttleStatus || !throttleStatus.restoreRate) return 0;
+
+  const requested = cost.requestedQueryCost ?? cost.actualQueryCost ?? 0;
+  const missing = Math.min(requested, throttleStatus.maximumAvailable) - throttleStatus.currentlyAvailable;
+  if (missing <= 0) return 0;
+
+  return Math.ceil((missing / throttleStatus.restoreRate) * 1000);
+}
+
+function isThrottled(response: any): boolean {
+  const errors = response?.errors?.graphQLErrors || (Array.isArray(response?.errors) ? response.errors : []);
+  return errors.some((error: any) => error?.extensions?.code === 'THROTTLED');
+}
+
+async function wait(delayMs: number, stats: ThrottleStats, reason: 'throttled' | 'cost') {
+  stats.waitMs += delayMs;
+  stats.onWait?.(delayMs, reason);
+  await new Promise((resolve) => setTimeout(resolve, delayMs));
+}
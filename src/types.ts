@@ -111,9 +111,20 @@ export type CustomerData = {
     predictedSpendTier: string | null;
     rfmGroup: string | null;
   };
+  deletedAt?: string; // Not from Shopify: set on exported records when a full fetch no longer found the customer
 };
 
-export type ExportStatus = 'pending' | 'in_progress' | 'completed' | 'failed';
+export type ExportStatus = 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled' | 'paused';
+
+// Asks the worker running a job to stop after its current batch
+export type JobControlRequest = 'cancel' | 'pause';
+
+// 'full' re-fetches every customer, 'sync' only those updated since the last completed job,
+// 'file' writes cached customers to an export file without fetching
+export type ExportMode = 'full' | 'sync' | 'file';
+
+// 'paginated' pages through the customers connection, 'bulk' runs a Shopify bulk operation
+export type FetchStrategy = 'paginated' | 'bulk';
 
 export interface ExportJob {
   id: string;
@@ -124,7 +135,204 @@ export interface ExportJob {
   startedAt: string;
   completedAt?: string;
   error?: string;
-  csvFilePath?: string;
+  csvFilePath?: string; // Latest export file generated for the job (CSV, JSONL, XLSX or Parquet)
   lastCursor?: string; // For resuming failed exports
+  mode: ExportMode;
+  updatedSince?: string; // updated_at lower bound used by sync jobs
+  highWaterMark?: string; // Latest customer updatedAt seen, where the next sync continues from
+  fetchStrategy: FetchStrategy;
+  bulkOperationId?: string;
+  bulkOperationStatus?: string; // Shopify BulkOperationStatus, e.g. RUNNING or COMPLETED
+  bulkObjectCount?: number; // Objects (customers and nested nodes) written by the bulk operation so far
+  throttleWaitMs: number; // Total time spent waiting on Shopify's query cost bucket
+  throttledCount: number; // Requests Shopify rejected as THROTTLED and that were retried
+  filter?: string; // Customer filter expression the export file was limited to
+  deletedCustomers: number; // Customers marked deleted because this full job didn't see them
+  jobOptions: JobOptions; // What the worker does after fetching
+  leaseOwner?: string; // Worker currently running the job
+  leaseExpiresAt?: string; // The job counts as orphaned once this passes without a heartbeat
+  heartbeatAt?: string;
+  attempts: number; // Times a worker has started the job, including resumes
+  controlRequest?: JobControlRequest; // Cancel or pause requested while the job is running
+  staleSince?: string; // When a customer the export file may contain was erased; the file should be regenerated
+  masking?: MaskingPolicy; // Policy the export file was masked with, as it was when the file was written
+  fileDeletedAt?: string; // When the retention janitor deleted the export file
+  fileDeletedReason?: string; // Which retention limit it was deleted under
 }
 
+export type JobOptions = {
+  exportCsv?: boolean; // Write a CSV once the fetch completes
+  profile?: string; // CSV column profile for that file, the default profile if unset
+  masking?: string; // Masking policy for that file, unmasked if unset
+};
+
+// How a field is masked in export files: removed, partly hidden, replaced by a
+// salted hash, or coarsened (dates to the month, other values to a prefix)
+export type MaskingMethod = 'redact' | 'partial' | 'hash' | 'generalize';
+
+export type MaskingRule = {
+  method: MaskingMethod;
+  keep?: number; // partial and generalize: how many characters (or trailing phone digits) stay visible
+};
+
+export interface MaskingPolicy {
+  name: string;
+  description?: string;
+  fields: Record<string, MaskingRule>; // Keyed by CustomerData path, in the same syntax as CSV columns
+}
+
+// 'full' and 'sync' queue a fetch job, 'csv' writes a CSV from the database
+export type ScheduleAction = 'full' | 'sync' | 'csv';
+
+export type ScheduleOptions = {
+  strategy?: FetchStrategy; // For full and sync
+  exportCsv?: boolean; // For full and sync: also write a CSV once the fetch completes
+  profile?: string; // CSV column profile for csv, or for the CSV written after a fetch
+  masking?: string; // Masking policy for that file
+};
+
+export interface Schedule {
+  id: number;
+  storeName: string;
+  cron: string; // Five-field cron expression, evaluated in UTC
+  action: ScheduleAction;
+  options: ScheduleOptions;
+  enabled: boolean;
+  nextRunAt: string | null; // Next occurrence the scheduler will run; null while disabled
+  lastRunAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 'queued': a fetch job was queued; 'completed'/'failed': outcome of a csv run;
+// 'skipped': the store already had an active job; 'missed': the scheduler wasn't running in time
+export type ScheduleRunStatus = 'queued' | 'completed' | 'failed' | 'skipped' | 'missed';
+
+export interface ScheduleRun {
+  id: number;
+  scheduleId: number;
+  scheduledFor: string; // The occurrence, or the first of several missed ones
+  ranAt: string;
+  status: ScheduleRunStatus;
+  jobId: string | null;
+  message: string | null;
+}
+
+
+export type WebhookEvent = 'job.completed' | 'job.failed' | 'file.created';
+
+export interface Webhook {
+  id: number;
+  storeName: string | null; // null for webhooks that fire for every store
+  url: string;
+  secret: string; // HMAC-SHA256 key for the X-Webhook-Signature header
+  events: WebhookEvent[];
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 'pending' until delivered or out of attempts; retries wait in 'pending' with a later nextAttemptAt
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookDelivery {
+  id: number;
+  webhookId: number;
+  event: WebhookEvent;
+  jobId: string;
+  payload: unknown;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  responseStatus: number | null; // HTTP status of the last attempt
+  error: string | null; // Why the last attempt failed
+  createdAt: string;
+  deliveredAt: string | null;
+}
+
+// status:read covers job and store status, export:trigger queuing and stopping jobs,
+// data:download anything holding customer data; admin grants all of them plus schedules and webhooks
+export type ApiKeyScope = 'status:read' | 'export:trigger' | 'data:download' | 'admin';
+
+export interface ApiKey {
+  id: number;
+  name: string;
+  prefix: string; // Start of the key, to recognize it in listings; the key itself is only stored hashed
+  scopes: ApiKeyScope[];
+  storeNames: string[] | null; // null for keys that may access every store
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+// A signed URL to one job's export file that works without an API key
+export interface DownloadLink {
+  id: number;
+  jobId: string;
+  label: string | null; // Who it was sent to, e.g. `marketing agency`
+  expiresAt: string;
+  singleUse: boolean; // Stops working after the first download
+  createdBy: string; // Key name or user@host that issued it
+  createdAt: string;
+  downloadCount: number;
+  lastDownloadAt: string | null;
+  revokedAt: string | null;
+}
+
+export type AuditAction =
+  | 'export.trigger' // Full fetch queued
+  | 'export.resume'
+  | 'sync.trigger'
+  | 'file.generate' // Export file written from the database
+  | 'file.download'
+  | 'customers.stream' // Customers streamed without writing a file
+  | 'subject.export' // Everything held about a customer, for a subject access request
+  | 'subject.erase'
+  | 'file.delete' // Export file removed by the retention janitor or the cleanup command
+  | 'link.create' // Download link issued for an export file
+  | 'link.revoke';
+
+// api_key for HTTP requests, os_user for CLI commands, system for the scheduler and worker,
+// download_link for downloads through a signed link
+export type AuditActorType = 'api_key' | 'os_user' | 'system' | 'download_link';
+
+export interface AuditActor {
+  type: AuditActorType;
+  name: string; // Key name, user@host, or e.g. `schedule #3` or `link #5`
+  apiKeyId?: number | null;
+  clientIp?: string | null;
+}
+
+export interface AuditEntry {
+  id: number;
+  at: string;
+  action: AuditAction;
+  actorType: AuditActorType;
+  actor: string;
+  apiKeyId: number | null;
+  clientIp: string | null;
+  storeName: string;
+  jobId: string | null;
+  filePath: string | null;
+  details: Record<string, unknown>; // Filter, profile, format and other options the action ran with
+}
+
+export interface CustomerChange {
+  id: number;
+  customerId: string;
+  storeName: string;
+  jobId: string | null; // Job whose save detected the change
+  fieldPath: string; // Dot path into CustomerData, e.g. `defaultAddress.city`; arrays are compared whole
+  oldValue: unknown;
+  newValue: unknown;
+  changedAt: string;
+}
+
+export interface JobChangeSummary {
+  jobId: string;
+  totalChanges: number;
+  customersChanged: number;
+  fields: Array<{ fieldPath: string; changes: number; customers: number }>;
+  changes: CustomerChange[]; // Most recent changes, up to the requested limit
+}
@@ -0,0 +1,287 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { JobEvent, subscribeToAllJobs } from './job-events';
+import { storeConfigs } from './shopify-client';
+import {
+  claimDueWebhookDeliveries,
+  createWebhook,
+  createWebhookDeliveries,
+  getExportJob,
+  getWebhook,
+  getWebhooks,
+  recordWebhookAttempt,
+  updateWebhook,
+} from './database';
+import { ExportJob, Webhook, WebhookDelivery, WebhookEvent } from './types';
+
+const WEBHOOK_INTERVAL_MS = parseInt(process.env.WEBHOOK_INTERVAL_MS || '') || 5000;
+const WEBHOOK_TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '') || 10000;
+const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '') || 6;
+// Retries wait 30s, 1m, 2m, ... up to an hour
+const WEBHOOK_BASE_BACKOFF_MS = 30000;
+const WEBHOOK_MAX_BACKOFF_MS = 60 * 60 * 1000;
+const DELIVERIES_PER_TICK = 20;
+// Prefixed to download URLs so receivers get absolute links, e.g. https://exports.example.com
+const PUBLIC_BASE_URL = (process.env.PUBLIC_BASE_URL || '').replace(/\/$/, '');
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['job.completed', 'job.failed', 'file.created'];
+
+/**
+ * Queues deliveries whenever a job published in this process completes,
+ * fails or produces an export file. Deliveries are stored, so a dispatcher in
+ * any process sharing the database sends them. Returns a function that stops
+ * listening.
+ */
+export function queueWebhooksForJobEvents(): () => void {
+  return subscribeToAllJobs((event) => {
+    try {
+      queueWebhooksForEvent(event);
+    } catch (error) {
+      console.error(`Failed to queue webhooks for job ${event.jobId}:`, error);
+    }
+  });
+}
+
+function queueWebhooksForEvent(event: JobEvent) {
+  let webhookEvent: WebhookEvent;
+  if (event.type === 'status' && event.status === 'completed') {
+    webhookEvent = 'job.completed';
+  } else if (event.type === 'status' && event.status === 'failed') {
+    webhookEvent = 'job.failed';
+  } else if (event.type === 'file' && event.status === 'completed') {
+    webhookEvent = 'file.created';
+  } else {
+    return;
+  }
+
+  const job = getExportJob(event.jobId);
+  if (!job) return;
+
+  const webhooks = getWebhooks(job.storeName).filter((webhook) => webhook.enabled && webhook.events.includes(webhookEvent));
+  if (webhooks.length === 0) return;
+
+  const file =
+    event.type === 'file'
+      ? {
+          fileName: path.basename(event.filePath!),
+          format: event.format,
+          exported: event.exported ?? null,
+          downloadUrl: `${PUBLIC_BASE_URL}${event.downloadUrl}`,
+        }
+      : null;
+
+  createWebhookDeliveries(webhooks, webhookEvent, job.id, buildPayload(webhookEvent, job, file, event.at));
+}
+
+function buildPayload(event: WebhookEvent, job: ExportJob, file: Record<string, unknown> | null, occurredAt: string) {
+  return {
+    event,
+    occurredAt,
+    job: {
+      id: job.id,
+      storeName: job.storeName,
+      mode: job.mode,
+      status: job.status,
+      totalCustomers: job.totalCustomers,
+      processedCustomers: job.processedCustomers,
+      deletedCustomers: job.deletedCustomers,
+      startedAt: job.startedAt,
+      completedAt: job.completedAt || null,
+      error: job.error || null,
+      downloadUrl: job.csvFilePath ? `${PUBLIC_BASE_URL}/api/download-csv/job/${job.id}` : null,
+    },
+    file,
+  };
+}
+
+/**
+ * Signature sent in X-Webhook-Signature: HMAC-SHA256 of `${timestamp}.${body}`
+ * with the webhook's secret, hex encoded. Receivers recompute it from the raw
+ * body and the X-Webhook-Timestamp header.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+export type WebhookDispatcher = {
+  tick(): Promise<WebhookDelivery[]>; // Sends whatever is due now; start() calls it on an interval
+  start(): void;
+  stop(): void;
+};
+
+export type WebhookDispatcherOptions = {
+  now?: () => Date;
+  intervalMs?: number;
+};
+
+export function createWebhookDispatcher(options: WebhookDispatcherOptions = {}): WebhookDispatcher {
+  const now = options.now || (() => new Date());
+  const intervalMs = options.intervalMs ?? WEBHOOK_INTERVAL_MS;
+  let timer: NodeJS.Timeout | null = null;
+  let stopped = true;
+
+  const tick = async (): Promise<WebhookDelivery[]> => {
+    // Leased for longer than a request can take, so nothing is sent twice
+    const deliveries = claimDueWebhookDeliveries(now(), WEBHOOK_TIMEOUT_MS * 2, DELIVERIES_PER_TICK);
+    await Promise.all(deliveries.map((delivery) => attemptDelivery(delivery, now)));
+    return deliveries;
+  };
+
+  const loop = async () => {
+    try {
+      await tick();
+    } catch (error) {
+      console.error('Webhook dispatcher failed:', error);
+    }
+    if (!stopped) {
+      timer = setTimeout(loop, intervalMs);
+    }
+  };
+
+  return {
+    tick,
+    start: () => {
+      if (!stopped) return;
+      stopped = false;
+      timer = setTimeout(loop, 0);
+    },
+    stop: () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    },
+  };
+}
+
+async function attemptDelivery(delivery: WebhookDelivery, now: () => Date) {
+  const webhook = getWebhook(delivery.webhookId);
+  const attempt = delivery.attempts + 1;
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  if (!webhook || !webhook.enabled) {
+    error = webhook ? 'Webhook disabled' : 'Webhook deleted';
+  } else {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = String(Math.floor(now().getTime() / 1000));
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'customer-export-service',
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Delivery': String(delivery.id),
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': signWebhookPayload(webhook.secret, timestamp, body),
+        },
+        body,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+      if (!response.ok) {
+        error = `HTTP ${response.status}`;
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  const delivered = error === null;
+  const retry = !delivered && webhook?.enabled && attempt < WEBHOOK_MAX_ATTEMPTS;
+  const backoffMs = Math.min(WEBHOOK_BASE_BACKOFF_MS * 2 ** (attempt - 1), WEBHOOK_MAX_BACKOFF_MS);
+
+  recordWebhookAttempt(delivery.id, {
+    at: now().toISOString(),
+    delivered,
+    responseStatus,
+    error,
+    nextAttemptAt: retry ? new Date(now().getTime() + backoffMs).toISOString() : null,
+  });
+
+  if (delivered) {
+    console.log(`Webhook ${delivery.event} for job ${delivery.jobId} delivered to ${webhook!.url}`);
+  } else {
+    const next = retry ? `, retrying in ${Math.round(backoffMs / 1000)}s` : ', giving up';
+    console.warn(`Webhook ${delivery.event} for job ${delivery.jobId} failed (attempt ${attempt}): ${error}${next}`);
+  }
+}
+
+export type WebhookRequest = {
+  storeName?: string | null;
+  url?: string;
+  secret?: string;
+  events?: string[];
+  enabled?: boolean;
+};
+
+/**
+ * Validates and stores a webhook. Without a secret one is generated. Throws on invalid input.
+ */
+export function addWebhook(request: WebhookRequest): Webhook {
+  if (!request.url) {
+    throw new Error('url is required');
+  }
+
+  return createWebhook({
+    storeName: validateStoreName(request.storeName ?? null),
+    url: validateUrl(request.url),
+    secret: request.secret || crypto.randomBytes(32).toString('hex'),
+    events: validateEvents(request.events ?? WEBHOOK_EVENTS),
+    enabled: request.enabled ?? true,
+  });
+}
+
+/**
+ * Applies changes to a webhook. Throws on invalid input.
+ */
+export function editWebhook(id: number, request: WebhookRequest): Webhook | null {
+  if (!getWebhook(id)) return null;
+
+  return updateWebhook(id, {
+    storeName: request.storeName !== undefined ? validateStoreName(request.storeName) : undefined,
+    url: request.url !== undefined ? validateUrl(request.url) : undefined,
+    secret: request.secret || undefined,
+    events: request.events !== undefined ? validateEvents(request.events) : undefined,
+    enabled: request.enabled,
+  });
+}
+
+/**
+ * A webhook as returned by the API, without its secret
+ */
+export function publicWebhook(webhook: Webhook): Omit<Webhook, 'secret'> {
+  const { secret, ...rest } = webhook;
+  return rest;
+}
+
+function validateStoreName(storeName: string | null): string | null {
+  if (storeName !== null && !(storeName in storeConfigs)) {
+    throw new Error(`Invalid store name: ${storeName}. Available stores: ${Object.keys(storeConfigs).join(', ')}`);
+  }
+  return storeName;
+}
+
+function validateUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid url: ${url}`);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error(`Invalid url: ${url}. Only http and https are supported`);
+  }
+  return url;
+}
+
+function validateEvents(events: string[]): WebhookEvent[] {
+  if (!Array.isArray(events) || events.length === 0) {
+    throw new Error(`events must list at least one of: ${WEBHOOK_EVENTS.join(', ')}`);
+  }
+  const unknown = events.filter((event) => !WEBHOOK_EVENTS.includes(event as WebhookEvent));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown webhook events: ${unknown.join(', ')}. Available events: ${WEBHOOK_EVENTS.join(', ')}`);
+  }
+  return events as WebhookEvent[];
+}
@@ -0,0 +1,156 @@
+import { FetchResult, fetchAndSaveCustomers, exportCustomers } from './export-service';
+import {
+  claimExportJob,
+  claimNextExportJob,
+  getExportJob,
+  recoverOrphanedJobs,
+  updateExportJob,
+} from './database';
+import { JOB_LEASE_MS, createWorkerId, holdJobLease } from './job-lease';
+import { publishJobEvent } from './job-events';
+import { ExportJob } from './types';
+
+const WORKER_CONCURRENCY = parseInt(process.env.WORKER_CONCURRENCY || '') || 2;
+const WORKER_POLL_INTERVAL_MS = parseInt(process.env.WORKER_POLL_INTERVAL_MS || '') || 2000;
+
+export type Worker = {
+  id: string;
+  wake(): void; // Polls immediately, e.g. right after a job is queued
+  stop(): Promise<void>; // Stops claiming jobs and waits for running ones
+};
+
+/**
+ * Recovers orphaned jobs, then runs queued jobs with up to WORKER_CONCURRENCY
+ * at a time. Each store has at most one active job, so concurrency spreads
+ * across stores.
+ */
+export function startWorker(options: { concurrency?: number } = {}): Worker {
+  const id = createWorkerId();
+  const concurrency = options.concurrency ?? WORKER_CONCURRENCY;
+  const running = new Map<string, Promise<void>>();
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+
+  const { requeued, stopped: stoppedJobs, failed } = recoverOrphanedJobs();
+  for (const job of requeued) {
+    console.log(`Recovered orphaned job ${job.id} (${job.storeName}), it will resume from its last cursor`);
+  }
+  for (const job of stoppedJobs) {
+    const status = job.controlRequest === 'cancel' ? 'cancelled' : 'paused';
+    console.log(`Orphaned job ${job.id} (${job.storeName}) was ${status} as requested instead of requeued`);
+  }
+  for (const job of failed) {
+    console.log(`Marked interrupted file export ${job.id} (${job.storeName}) as failed`);
+  }
+
+  const schedule = (delayMs: number) => {
+    if (stopped) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(poll, delayMs);
+  };
+
+  const poll = () => {
+    timer = null;
+    if (stopped) return;
+
+    try {
+      while (running.size < concurrency) {
+        const job = claimNextExportJob(id, JOB_LEASE_MS);
+        if (!job) break;
+
+        console.log(`Worker picked up job ${job.id} for ${job.storeName}`);
+        const run = runExportJob(job, id)
+          .then((result) => {
+            console.log(`Job ${job.id} ${result.status} for ${job.storeName}: ${result.totalCustomers} customers`);
+          })
+          .catch((error) => {
+            console.error(`Job ${job.id} failed for ${job.storeName}:`, error);
+          })
+          .finally(() => {
+            running.delete(job.id);
+            schedule(0);
+          });
+        running.set(job.id, run);
+      }
+    } catch (error) {
+      console.error(`Worker ${id} failed to claim a job:`, error);
+    }
+
+    schedule(WORKER_POLL_INTERVAL_MS);
+  };
+
+  schedule(0);
+  console.log(`Worker ${id} started (concurrency ${concurrency})`);
+
+  return {
+    id,
+    wake: () => schedule(0),
+    stop: async () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      await Promise.allSettled(running.values());
+    },
+  };
+}
+
+/**
+ * Runs a leased job: fetches (resuming from the job's cursor if it has one),
+ * optionally writes the CSV, and heartbeats the lease until done. Stops with
+ * an error as soon as the lease is lost. A job queued with its CSV only
+ * completes once the file is written, so job.completed webhooks carry its
+ * download URL and a failed export sends job.failed alone.
+ */
+export async function runExportJob(job: ExportJob, workerId: string): Promise<FetchResult> {
+  const lease = holdJobLease(job.id, workerId);
+
+  try {
+    const result = await fetchAndSaveCustomers(job.storeName, job.id, job.lastCursor || undefined, {
+      signal: lease.signal,
+      deferCompletion: job.jobOptions.exportCsv,
+    });
+
+    // A cancelled or paused job has only part of the customers, so no CSV yet
+    if (job.jobOptions.exportCsv && result.status === 'completed') {
+      const { profile, masking } = job.jobOptions;
+      try {
+        await exportCustomers(job.storeName, { jobId: job.id, profile, masking, format: 'csv', signal: lease.signal });
+      } catch (error) {
+        // The customers are saved, but the job was queued for its file too, so it fails without one
+        if (!lease.signal.aborted) {
+          const message = `CSV export failed: ${error instanceof Error ? error.message : String(error)}`;
+          updateExportJob(job.id, { status: 'failed', error: message, completedAt: new Date().toISOString() });
+          publishJobEvent(job.id, { type: 'status', status: 'failed', error: message });
+        }
+        throw error;
+      }
+      console.log(`CSV export completed for ${job.storeName}`);
+      updateExportJob(job.id, { status: 'completed', completedAt: new Date().toISOString() });
+      publishJobEvent(job.id, { type: 'status', status: 'completed' });
+    }
+
+    return result;
+  } catch (error) {
+    // Errors raised before the fetch could record them, e.g. a store without credentials.
+    // A job whose lease was lost is someone else's now and is left alone.
+    if (!lease.signal.aborted && getExportJob(job.id)?.status === 'in_progress') {
+      const message = error instanceof Error ? error.message : String(error);
+      updateExportJob(job.id, { status: 'failed', error: message, completedAt: new Date().toISOString() });
+      publishJobEvent(job.id, { type: 'status', status: 'failed', error: message });
+    }
+    throw error;
+  } finally {
+    lease.release();
+  }
+}
+
+/**
+ * Claims a queued job and runs it in this process, as the CLI does. Returns
+ * null if a worker claimed the job first.
+ */
+export async function runJobInForeground(job: ExportJob): Promise<FetchResult | null> {
+  const workerId = createWorkerId('cli');
+  const claimed = claimExportJob(job.id, workerId, JOB_LEASE_MS);
+  if (!claimed) return null;
+
+  return runExportJob(claimed, workerId);
+}
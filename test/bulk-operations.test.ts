@@ -0,0 +1,141 @@
+import { after, before, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import { makeCustomer, openDatabase, tempPath } from './helpers';
+import { ShopifyStub, serveShopify } from './shopify-stub';
+
+// Read when the modules below load, so they poll without waiting
+process.env.BULK_POLL_INTERVAL_MS = '5';
+
+const database = openDatabase(tempPath('bulk.db'));
+database.initializeDatabase();
+const { fetchAndSaveCustomers } = require('../src/export-service') as typeof import('../src/export-service');
+const { runJobInForeground } = require('../src/worker') as typeof import('../src/worker');
+
+const STORE = 'evisu-us';
+
+/**
+ * Stands in for Shopify: answers the bulk operation mutation and status
+ * query, reporting RUNNING once before COMPLETED, and serves the JSONL result
+ */
+const stub = {
+  handle: (req: http.IncomingMessage, body: string, res: http.ServerResponse) => {
+    if (req.url === '/results.jsonl') {
+      stub.downloads++;
+      res.writeHead(200, { 'Content-Type': 'application/jsonl' });
+      res.end(stub.results);
+      return;
+    }
+
+    const { query } = JSON.parse(body);
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    if (query.includes('bulkOperationRunQuery')) {
+      stub.operations++;
+      stub.polls = 0;
+      const bulkOperation = { id: `gid://shopify/BulkOperation/${stub.operations}`, status: 'CREATED' };
+      res.end(JSON.stringify({ data: { bulkOperationRunQuery: { bulkOperation, userErrors: [] } } }));
+    } else if (query.includes('bulkOperationStatus')) {
+      const done = ++stub.polls > 1;
+      const node = {
+        id: `gid://shopify/BulkOperation/${stub.operations}`,
+        status: done ? 'COMPLETED' : 'RUNNING',
+        errorCode: null,
+        objectCount: done ? String(stub.results.split('\n').filter(Boolean).length) : '0',
+        url: done ? `${shopify.url}/results.jsonl` : null,
+        partialDataUrl: null,
+      };
+      res.end(JSON.stringify({ data: { node } }));
+    } else {
+      res.end(JSON.stringify({ errors: [{ message: `Unexpected query: ${query}` }] }));
+    }
+  },
+  results: '',
+  operations: 0,
+  polls: 0,
+  downloads: 0,
+};
+let shopify: ShopifyStub;
+
+before(async () => {
+  shopify = await serveShopify(stub.handle);
+});
+
+after(() => {
+  shopify.close();
+  database.closeDatabase();
+});
+
+// A customer as bulk operations return it: its own line, then its orders, their line items and its events
+function bulkLines(index: number): string[] {
+  const { events, orders, ...customer } = makeCustomer(index);
+  const orderId = `gid://shopify/Order/${9000 + index}`;
+  return [
+    customer,
+    {
+      id: orderId,
+      createdAt: '2024-05-20T09:30:00Z',
+      email: customer.defaultEmailAddress?.emailAddress,
+      paymentGatewayNames: ['shopify_payments'],
+      customerAcceptsMarketing: true,
+      customer: { displayName: customer.displayName },
+      discountCode: null,
+      displayFinancialStatus: 'PAID',
+      displayFulfillmentStatus: 'FULFILLED',
+      shippingAddress: null,
+      totalPriceSet: { shopMoney: { amount: '60.25', currencyCode: 'USD' } },
+      __parentId: customer.id,
+    },
+    { id: `gid://shopify/LineItem/${9500 + index}`, name: 'Denim jacket', quantity: 1, __parentId: orderId },
+    { action: 'comment', appTitle: null, message: `Note ${index}`, __parentId: customer.id },
+  ].map((line) => JSON.stringify(line));
+}
+
+function bulkResults(count: number, trailer: string[] = []): string {
+  const lines = Array.from({ length: count }, (_, i) => bulkLines(i + 1)).flat();
+  return [...lines, ...trailer].join('\n') + '\n';
+}
+
+test('streams the bulk operation result into the database, rebuilding nested nodes', async () => {
+  stub.results = bulkResults(3);
+
+  const result = await fetchAndSaveCustomers(STORE, undefined, undefined, { strategy: 'bulk' });
+  assert.equal(result.status, 'completed');
+  assert.equal(result.totalCustomers, 3);
+
+  const job = database.getExportJob(result.jobId)!;
+  assert.equal(job.fetchStrategy, 'bulk');
+  assert.equal(job.bulkOperationStatus, 'COMPLETED');
+  assert.equal(job.bulkObjectCount, 12);
+  assert.equal(job.processedCustomers, 3);
+
+  const [record] = database.getCustomerRecordsById(makeCustomer(2).id);
+  assert.equal(record.customer.defaultEmailAddress?.emailAddress, 'customer2@example.com');
+  assert.equal(record.customer.orders.nodes.length, 1);
+  assert.deepEqual(record.customer.orders.nodes[0].lineItems.nodes, [
+    { id: 'gid://shopify/LineItem/9502', name: 'Denim jacket', quantity: 1 },
+  ]);
+  assert.deepEqual(record.customer.events.nodes, [{ action: 'comment', appTitle: null, message: 'Note 2' }]);
+});
+
+test('a failed bulk job resumes by running the operation again and counting from zero', async () => {
+  // The first 250 customers are saved before the truncated last line fails the download
+  stub.results = bulkResults(260, ['{"id": "gid://shopify/Customer/']);
+  const operationsBefore = stub.operations;
+
+  await assert.rejects(fetchAndSaveCustomers(STORE, undefined, undefined, { strategy: 'bulk' }));
+  const [failed] = database.getExportJobsByStore(STORE, 1);
+  assert.equal(failed.status, 'failed');
+  assert.equal(failed.processedCustomers, 250);
+  assert.equal(failed.lastCursor, null);
+
+  // Resumed the way the API and CLI do: requeued, then run by a worker
+  stub.results = bulkResults(260);
+  const requeued = database.requeueExportJob(failed.id, failed.jobOptions)!;
+  const result = await runJobInForeground(requeued);
+
+  assert.equal(result?.status, 'completed');
+  assert.equal(result?.totalCustomers, 260);
+  assert.equal(database.getExportJob(failed.id)!.processedCustomers, 260);
+  assert.equal(stub.operations, operationsBefore + 2);
+  assert.equal(database.getCustomerCount(STORE), 260);
+});
@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { tempPath } from './helpers';
+import { getCsvProfile } from '../src/csv-profiles';
+import { openExportWriter } from '../src/export-formats';
+import { CustomerData } from '../src/types';
+
+// Commas, quotes, CR/LF line breaks, unicode and customers without any address
+const FIXTURES_DIR = path.join(__dirname, 'fixtures/csv');
+const CUSTOMERS: CustomerData[] = JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, 'customers.json'), 'utf8'));
+
+// Set UPDATE_GOLDEN=1 to rewrite the expected files after an intended output change, then review the diff
+const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === '1';
+
+async function writeCsv(profileName: string, options: { gzip?: boolean } = {}): Promise<Buffer> {
+  const outputFile = tempPath(`${profileName}.csv${options.gzip ? '.gz' : ''}`);
+  const writer = await openExportWriter('csv', outputFile, getCsvProfile(profileName), options);
+  for (const customer of CUSTOMERS) {
+    await writer.write(customer);
+  }
+  await writer.close();
+  const written = fs.readFileSync(outputFile);
+  return options.gzip ? zlib.gunzipSync(written) : written;
+}
+
+for (const profileName of ['default', 'crm', 'finance', 'marketing']) {
+  test(`the ${profileName} profile writes the expected CSV byte for byte`, async () => {
+    const goldenFile = path.join(FIXTURES_DIR, `${profileName}.csv`);
+    const written = await writeCsv(profileName);
+    if (UPDATE_GOLDEN) {
+      fs.writeFileSync(goldenFile, written);
+    }
+    assert.equal(written.toString('utf8'), fs.readFileSync(goldenFile, 'utf8'));
+    assert.ok(written.equals(fs.readFileSync(goldenFile)));
+  });
+}
+
+test('gzipped CSV decompresses to the same bytes', async () => {
+  const plain = await writeCsv('default');
+  assert.ok((await writeCsv('default', { gzip: true })).equals(plain));
+});
@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { makeCustomer, openDatabase, readDatabaseFiles, tempPath } from './helpers';
+import { AuditActor } from '../src/types';
+
+const dbPath = tempPath('data-subjects.db');
+const database = openDatabase(dbPath);
+database.initializeDatabase();
+const { eraseDataSubject, purgeErasedData } = require('../src/data-subjects') as typeof import('../src/data-subjects');
+
+const STORE = 'evisu-us';
+const ACTOR: AuditActor = { type: 'os_user', name: 'test@localhost' };
+
+test('an erasure while an export is reading succeeds, and only the vacuum is left to retry', () => {
+  const email = 'jane.erased@plaintext.test';
+  database.saveCustomers(STORE, [makeCustomer(1, { defaultEmailAddress: { emailAddress: email } }), makeCustomer(2)]);
+
+  // An export part way through the store, holding its read connection open
+  const exporting = database.iterateCustomersByStore(STORE);
+  exporting.next();
+
+  let result;
+  try {
+    result = eraseDataSubject({ email }, ACTOR);
+  } finally {
+    exporting.return(undefined);
+  }
+
+  assert.deepEqual(result.erased.map((erased) => erased.customerId), [makeCustomer(1).id]);
+  assert.equal(result.purgePending, true);
+  assert.deepEqual(database.getCustomerRecordsById(makeCustomer(1).id), []);
+  // The old pages are still in the file until the purge goes through
+  assert.equal(readDatabaseFiles(dbPath).includes(email), true);
+
+  // With the export done, the retried purge leaves no copy in the file
+  assert.equal(purgeErasedData(), true);
+  assert.equal(readDatabaseFiles(dbPath).includes(email), false);
+  assert.equal(database.getCustomerCount(STORE), 1);
+});
+
+test('an erasure with nothing else reading purges straight away', () => {
+  const result = eraseDataSubject({ customerId: makeCustomer(2).id }, ACTOR);
+  assert.equal(result.erased.length, 1);
+  assert.equal(result.purgePending, false);
+});
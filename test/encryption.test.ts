@@ -0,0 +1,114 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as crypto from 'crypto';
+import { makeCustomer, openDatabase, readDatabaseFiles, tempPath } from './helpers';
+import { CustomerData } from '../src/types';
+
+const STORE = 'evisu-us';
+const FIRST_KEY = crypto.randomBytes(32).toString('base64');
+const SECOND_KEY = crypto.randomBytes(32).toString('hex');
+
+// PII in each encrypted table: the customer JSON, addresses, orders, events and change history
+function customerWithHistory(index: number, email: string): CustomerData {
+  return makeCustomer(index, {
+    defaultEmailAddress: { emailAddress: email },
+    events: { nodes: [{ action: 'email_changed', appTitle: null, message: `Email set to ${email}` }] },
+    orders: {
+      nodes: [
+        {
+          id: `gid://shopify/Order/${7000 + index}`,
+          createdAt: '2024-05-20T09:30:00Z',
+          email,
+          paymentGatewayNames: ['shopify_payments'],
+          customerAcceptsMarketing: false,
+          customer: null,
+          discountCode: null,
+          displayFinancialStatus: 'PAID',
+          displayFulfillmentStatus: 'FULFILLED',
+          lineItems: { nodes: [] },
+          returns: { nodes: [] },
+          shippingAddress: {
+            address1: `${index} Main Street`,
+            address2: null,
+            city: 'Springfield',
+            country: 'United States',
+            countryCodeV2: 'US',
+            company: null,
+            formattedArea: null,
+          },
+          totalPriceSet: { shopMoney: { amount: '60.25', currencyCode: 'USD' } },
+        },
+      ],
+    },
+  });
+}
+
+function plaintextFound(dbPath: string, values: string[]): string[] {
+  const bytes = readDatabaseFiles(dbPath);
+  return values.filter((value) => bytes.includes(value));
+}
+
+test('customer PII written with encryption on never reaches the file as plaintext', () => {
+  const dbPath = tempPath('encrypted.db');
+  const database = openDatabase(dbPath, { DATA_ENCRYPTION_KEY: FIRST_KEY });
+  database.initializeDatabase();
+
+  database.saveCustomers(STORE, [customerWithHistory(1, 'ada@plaintext.test'), customerWithHistory(2, 'grace@plaintext.test')]);
+  // An update records the old and new email in the change history
+  database.saveCustomers(STORE, [customerWithHistory(1, 'ada.lovelace@plaintext.test')]);
+  assert.equal(database.isEncryptionEnabled(), true);
+  database.closeDatabase();
+
+  assert.deepEqual(
+    plaintextFound(dbPath, ['ada@plaintext.test', 'ada.lovelace@plaintext.test', 'grace@plaintext.test', '1 Main Street']),
+    []
+  );
+
+  const reopened = openDatabase(dbPath, { DATA_ENCRYPTION_KEY: FIRST_KEY });
+  reopened.initializeDatabase();
+  const [record] = reopened.getCustomerRecordsById('1001');
+  assert.equal(record.customer.defaultEmailAddress?.emailAddress, 'ada.lovelace@plaintext.test');
+  reopened.closeDatabase();
+});
+
+test('plaintext from before encryption was enabled is gone after rotation, also under a new master key', () => {
+  const dbPath = tempPath('legacy.db');
+  const emails = ['linus@plaintext.test', 'margaret@plaintext.test', 'margaret.h@plaintext.test'];
+
+  const plain = openDatabase(dbPath, { DATA_ENCRYPTION_KEY: undefined });
+  plain.initializeDatabase();
+  plain.saveCustomers(STORE, [customerWithHistory(3, emails[0]), customerWithHistory(4, emails[1])]);
+  plain.closeDatabase();
+  // Proves the scan would notice, so the assertions below mean something
+  assert.deepEqual(plaintextFound(dbPath, emails.slice(0, 2)), emails.slice(0, 2));
+
+  const enabled = openDatabase(dbPath, { DATA_ENCRYPTION_KEY: FIRST_KEY });
+  enabled.initializeDatabase();
+  // Written with encryption on, but the plaintext it replaces is still in the file until the purge
+  enabled.saveCustomers(STORE, [customerWithHistory(4, emails[2])]);
+  const { values } = enabled.rotateEncryptionKey();
+  assert.ok(values > 0);
+  enabled.closeDatabase();
+  assert.deepEqual(plaintextFound(dbPath, emails), []);
+
+  const rotated = openDatabase(dbPath, { DATA_ENCRYPTION_KEY: FIRST_KEY });
+  rotated.initializeDatabase();
+  rotated.rotateEncryptionKey({ newMasterKey: Buffer.from(SECOND_KEY, 'hex') });
+  // Erased customers are zeroed, and the purge drops copies left by earlier updates
+  assert.ok(rotated.eraseCustomer('gid://shopify/Customer/1003') > 0);
+  rotated.purgeFreePages();
+  rotated.closeDatabase();
+  assert.deepEqual(plaintextFound(dbPath, emails), []);
+
+  const withOldKey = openDatabase(dbPath, { DATA_ENCRYPTION_KEY: FIRST_KEY });
+  assert.throws(() => withOldKey.initializeDatabase(), /does not match/);
+  withOldKey.closeDatabase();
+
+  const withNewKey = openDatabase(dbPath, { DATA_ENCRYPTION_KEY: SECOND_KEY });
+  withNewKey.initializeDatabase();
+  assert.deepEqual(withNewKey.getCustomerRecordsById('1003'), []);
+  const [record] = withNewKey.getCustomerRecordsById('1004');
+  assert.equal(record.customer.defaultEmailAddress?.emailAddress, emails[2]);
+  assert.equal(record.customer.orders.nodes[0].email, emails[2]);
+  withNewKey.closeDatabase();
+});
@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import { makeCustomer, openDatabase, tempPath } from './helpers';
+import { ExportOptions } from '../src/export-service';
+
+const EXPORTS_DIR = tempPath('exports');
+process.env.EXPORTS_DIR = EXPORTS_DIR;
+
+const database = openDatabase(tempPath('export-files.db'));
+database.initializeDatabase();
+const { exportCustomers } = require('../src/export-service') as typeof import('../src/export-service');
+const { subscribeToAllJobs } = require('../src/job-events') as typeof import('../src/job-events');
+
+const STORE = 'evisu-us';
+// Enough rows that the writer waits for the file to drain before the export is done
+database.saveCustomers(STORE, Array.from({ length: 5000 }, (_, i) => makeCustomer(i + 1)));
+
+const cases: [string, ExportOptions][] = [
+  ['gzipped CSV', { format: 'csv', gzip: true }],
+  ['masked JSONL or metadata file', { format: 'jsonl', masking: 'agency' }],
+];
+
+for (const [name, options] of cases) {
+  test(`an export aborted mid-write leaves no ${name} behind`, async () => {
+    const controller = new AbortController();
+    let filesWhenAborted: string[] = [];
+    // The file is started synchronously; aborting on the next turn lands between writes
+    const unsubscribe = subscribeToAllJobs((event) => {
+      if (event.type === 'file' && event.status === 'started') {
+        setImmediate(() => {
+          filesWhenAborted = fs.readdirSync(EXPORTS_DIR);
+          controller.abort();
+        });
+      }
+    });
+
+    try {
+      await assert.rejects(exportCustomers(STORE, { ...options, signal: controller.signal }), { name: 'AbortError' });
+    } finally {
+      unsubscribe();
+    }
+
+    assert.equal(filesWhenAborted.length, 1);
+    assert.deepEqual(fs.readdirSync(EXPORTS_DIR), []);
+    const [job] = database.getExportJobsByStore(STORE, 1);
+    assert.equal(job.status, 'failed');
+    assert.equal(job.csvFilePath, null);
+  });
+}
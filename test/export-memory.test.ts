@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as v8 from 'v8';
+import * as vm from 'vm';
+import { Writable } from 'stream';
+import Database from 'better-sqlite3';
+import { makeCustomer, openDatabase, tempPath } from './helpers';
+
+const STORE = 'evisu-us';
+const CUSTOMER_COUNT = parseInt(process.env.EXPORT_BENCH_CUSTOMERS || '') || 500000;
+// Far below the ~650 MB that 500k parsed customers take, so an export that buffers them fails
+const HEAP_CEILING_MB = 48;
+const SAMPLE_EVERY_BYTES = 16 * 1024 * 1024;
+
+v8.setFlagsFromString('--expose-gc');
+const gc: () => void = vm.runInNewContext('gc');
+
+const dbPath = tempPath('memory.db');
+const database = openDatabase(dbPath);
+database.initializeDatabase();
+database.closeDatabase();
+const { streamCustomers } = require('../src/export-service') as typeof import('../src/export-service');
+
+// Written with plain SQL in one transaction; saveCustomers would also fill the relational tables
+function generateCustomers(count: number) {
+  const db = new Database(dbPath);
+  const insert = db.prepare(`INSERT INTO customers (id, store_name, data, created_at, updated_at) VALUES (?, ?, ?, ?, ?)`);
+  db.transaction(() => {
+    for (let i = 0; i < count; i++) {
+      const customer = makeCustomer(i);
+      insert.run(customer.id, STORE, JSON.stringify(customer), customer.createdAt, customer.updatedAt);
+    }
+  })();
+  db.close();
+}
+
+// Live heap after a full collection, so garbage not yet collected doesn't count
+function liveHeapMb(): number {
+  gc();
+  return process.memoryUsage().heapUsed / 1024 / 1024;
+}
+
+test(`streaming ${CUSTOMER_COUNT} customers keeps the heap flat`, { timeout: 20 * 60 * 1000 }, async () => {
+  generateCustomers(CUSTOMER_COUNT);
+
+  const baseline = liveHeapMb();
+  let peak = baseline;
+  let bytes = 0;
+  let nextSample = SAMPLE_EVERY_BYTES;
+
+  // A slow consumer, like a client on a poor connection, so backpressure decides how much is buffered
+  const destination = new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      bytes += chunk.length;
+      if (bytes >= nextSample) {
+        nextSample += SAMPLE_EVERY_BYTES;
+        peak = Math.max(peak, liveHeapMb());
+      }
+      setImmediate(callback);
+    },
+  });
+
+  const exported = await streamCustomers(STORE, destination, { format: 'csv' });
+
+  assert.equal(exported, CUSTOMER_COUNT);
+  assert.ok(bytes > CUSTOMER_COUNT * 500, `only ${bytes} bytes written`);
+  const growth = peak - baseline;
+  console.log(`Exported ${exported} customers (${Math.round(bytes / 1024 / 1024)} MB), heap grew by ${growth.toFixed(1)} MB`);
+  assert.ok(growth < HEAP_CEILING_MB, `heap grew by ${growth.toFixed(1)} MB, more than ${HEAP_CEILING_MB} MB`);
+});
@@ -0,0 +1,28 @@
+-- The schema as the first release created it, before schema_migrations existed
+CREATE TABLE IF NOT EXISTS customers (
+  id TEXT PRIMARY KEY,
+  store_name TEXT NOT NULL,
+  data TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_customers_store ON customers(store_name);
+CREATE INDEX IF NOT EXISTS idx_customers_updated ON customers(updated_at);
+
+CREATE TABLE IF NOT EXISTS export_jobs (
+  id TEXT PRIMARY KEY,
+  store_name TEXT NOT NULL,
+  status TEXT NOT NULL,
+  total_customers INTEGER DEFAULT 0,
+  processed_customers INTEGER DEFAULT 0,
+  started_at TEXT NOT NULL,
+  completed_at TEXT,
+  error TEXT,
+  csv_file_path TEXT,
+  last_cursor TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_store ON export_jobs(store_name);
+CREATE INDEX IF NOT EXISTS idx_jobs_status ON export_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_jobs_started ON export_jobs(started_at);
@@ -0,0 +1,85 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CustomerData } from '../src/types';
+
+type DatabaseModule = typeof import('../src/database');
+
+const tempDirs: string[] = [];
+process.on('exit', () => tempDirs.forEach((dir) => fs.rmSync(dir, { recursive: true, force: true })));
+
+// Each test file runs in its own process, so the files it makes only need to be unique to it
+export function tempPath(name: string): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'customer-export-test-'));
+  tempDirs.push(dir);
+  return path.join(dir, name);
+}
+
+/**
+ * Loads a fresh copy of the database module for the file at dbPath. The
+ * module opens its file and reads the encryption key once, so this is how a
+ * test "restarts" the service, e.g. with encryption turned on.
+ */
+export function openDatabase(dbPath: string, env: Record<string, string | undefined> = {}): DatabaseModule {
+  process.env.DATABASE_PATH = dbPath;
+  for (const [name, value] of Object.entries(env)) {
+    if (value === undefined) delete process.env[name];
+    else process.env[name] = value;
+  }
+  delete require.cache[require.resolve('../src/database')];
+  return require('../src/database');
+}
+
+// The database file and its WAL, which is where freshly written pages sit until a checkpoint
+export function readDatabaseFiles(dbPath: string): Buffer {
+  return Buffer.concat(
+    [dbPath, `${dbPath}-wal`].filter((file) => fs.existsSync(file)).map((file) => fs.readFileSync(file))
+  );
+}
+
+export function makeCustomer(index: number, overrides: Partial<CustomerData> = {}): CustomerData {
+  const id = `gid://shopify/Customer/${1000 + index}`;
+  return {
+    id,
+    firstName: `First${index}`,
+    lastName: `Last${index}`,
+    displayName: `First${index} Last${index}`,
+    defaultEmailAddress: { emailAddress: `customer${index}@example.com` },
+    defaultPhoneNumber: { phoneNumber: `+1 555 000 ${String(index).padStart(4, '0')}` },
+    verifiedEmail: true,
+    state: 'ENABLED',
+    locale: 'en',
+    note: null,
+    tags: ['VIP'],
+    createdAt: '2024-01-15T10:00:00Z',
+    updatedAt: `2024-06-01T12:00:${String(index % 60).padStart(2, '0')}Z`,
+    amountSpent: { amount: '120.50', currencyCode: 'USD' },
+    numberOfOrders: '2',
+    lifetimeDuration: 'about 1 year',
+    addresses: [
+      {
+        address1: `${index} Main Street`,
+        address2: null,
+        city: 'Springfield',
+        country: 'United States',
+        countryCodeV2: 'US',
+        province: 'Oregon',
+        provinceCode: 'OR',
+        zip: '97477',
+        phone: null,
+        firstName: `First${index}`,
+        lastName: `Last${index}`,
+        company: null,
+      },
+    ],
+    defaultAddress: null,
+    lastOrder: { id: `gid://shopify/Order/${5000 + index}`, name: `#${5000 + index}`, createdAt: '2024-05-20T09:30:00Z' },
+    productSubscriberStatus: null,
+    mergeable: { isMergeable: true },
+    originalCreatedDate: null,
+    events: { nodes: [] },
+    orders: { nodes: [] },
+    statistics: { predictedSpendTier: 'HIGH', rfmGroup: 'LOYAL' },
+    ...overrides,
+  };
+}
@@ -0,0 +1,136 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { makeCustomer, openDatabase, tempPath } from './helpers';
+
+const STORE = 'evisu-us';
+const CUSTOMER = makeCustomer(1);
+const LEGACY_SCHEMA = fs.readFileSync(path.join(__dirname, 'fixtures/schema-v0.sql'), 'utf8');
+
+type ColumnInfo = { name: string; type: string; notnull: number; dflt_value: string | null; pk: number };
+
+/**
+ * A database as the release with this schema version left it: version 0 is
+ * the first release's schema, later ones are migrated that far. Rows are
+ * written with plain SQL, since today's code writes columns older releases lacked.
+ */
+function createFixture(version: number): string {
+  const dbPath = tempPath(`schema-v${version}.db`);
+  if (version === 0) {
+    const legacy = new Database(dbPath);
+    legacy.exec(LEGACY_SCHEMA);
+    legacy.close();
+  } else {
+    const database = openDatabase(dbPath);
+    database.initializeDatabase({ targetVersion: version });
+    assert.equal(database.getSchemaVersion(), version);
+    database.closeDatabase();
+  }
+
+  const fixture = new Database(dbPath);
+  const hasCursor = columnsOf(fixture, 'export_jobs').some((column) => column.name === 'last_cursor');
+  fixture
+    .prepare(`INSERT INTO customers (id, store_name, data, created_at, updated_at) VALUES (?, ?, ?, ?, ?)`)
+    .run(CUSTOMER.id, STORE, JSON.stringify(CUSTOMER), CUSTOMER.createdAt, '2024-06-02T08:00:00.000Z');
+  fixture
+    .prepare(
+      `INSERT INTO export_jobs (id, store_name, status, total_customers, processed_customers, started_at, completed_at, csv_file_path)
+       VALUES (?, ?, 'completed', 1, 1, ?, ?, ?)`
+    )
+    .run(`export_${STORE}_1`, STORE, '2024-06-02T07:59:00.000Z', '2024-06-02T08:00:00.000Z', 'exports/customers-evisu-us-2024-06-02.csv');
+  if (hasCursor) {
+    fixture
+      .prepare(
+        `INSERT INTO export_jobs (id, store_name, status, processed_customers, started_at, error, last_cursor)
+         VALUES (?, ?, 'failed', 250, ?, 'Network error', 'cursor-250')`
+      )
+      .run(`export_${STORE}_2`, STORE, '2024-06-03T07:59:00.000Z');
+  }
+  fixture.close();
+  return dbPath;
+}
+
+function columnsOf(db: Database.Database, table: string): ColumnInfo[] {
+  return db.pragma(`table_info(${table})`) as ColumnInfo[];
+}
+
+// Tables with their columns, and index names, in a form that doesn't depend on the order columns were added in
+function describeSchema(dbPath: string): Record<string, unknown> {
+  const db = new Database(dbPath, { readonly: true });
+  const objects = db
+    .prepare(`SELECT type, name FROM sqlite_master WHERE type IN ('table', 'index') AND name NOT LIKE 'sqlite_%' ORDER BY name`)
+    .all() as Array<{ type: string; name: string }>;
+  const schema: Record<string, unknown> = {};
+  for (const { type, name } of objects) {
+    schema[name] =
+      type === 'index'
+        ? 'index'
+        : columnsOf(db, name)
+            .map(({ name, type, notnull, dflt_value, pk }) => `${name} ${type} ${notnull} ${dflt_value} ${pk}`)
+            .sort();
+  }
+  db.close();
+  return schema;
+}
+
+const referencePath = tempPath('reference.db');
+const reference = openDatabase(referencePath);
+reference.initializeDatabase();
+const LATEST = reference.LATEST_SCHEMA_VERSION;
+reference.closeDatabase();
+const referenceSchema = describeSchema(referencePath);
+
+for (let version = 0; version < LATEST; version++) {
+  test(`upgrades a schema version ${version} database to the latest`, () => {
+    const dbPath = createFixture(version);
+
+    const database = openDatabase(dbPath);
+    assert.deepEqual(
+      database.getPendingMigrations().map((migration) => migration.version),
+      Array.from({ length: LATEST - version }, (_, i) => version + 1 + i)
+    );
+    database.initializeDatabase();
+    assert.equal(database.getSchemaVersion(), LATEST);
+    assert.deepEqual(database.getPendingMigrations(), []);
+    database.closeDatabase();
+
+    assert.deepEqual(describeSchema(dbPath), referenceSchema);
+
+    const upgraded = openDatabase(dbPath);
+    upgraded.initializeDatabase();
+    assert.deepEqual(upgraded.getCustomerRecordsById(CUSTOMER.id), [{ storeName: STORE, customer: CUSTOMER }]);
+
+    const completed = upgraded.getExportJob(`export_${STORE}_1`)!;
+    assert.equal(completed.status, 'completed');
+    assert.equal(completed.processedCustomers, 1);
+    assert.equal(completed.csvFilePath, 'exports/customers-evisu-us-2024-06-02.csv');
+    assert.equal(completed.mode, 'full');
+    assert.equal(completed.fetchStrategy, 'paginated');
+    assert.equal(completed.attempts, 0);
+    assert.deepEqual(completed.jobOptions, {});
+
+    if (version !== 1) {
+      const failed = upgraded.getExportJob(`export_${STORE}_2`)!;
+      assert.equal(failed.status, 'failed');
+      assert.equal(failed.lastCursor, 'cursor-250');
+      assert.equal(failed.processedCustomers, 250);
+    }
+
+    // The relational tables are backfilled from customers stored before they existed
+    const relational = new Database(dbPath, { readonly: true });
+    const addresses = relational.prepare(`SELECT COUNT(*) AS count FROM customer_addresses WHERE customer_id = ?`).get(CUSTOMER.id) as {
+      count: number;
+    };
+    relational.close();
+    assert.equal(addresses.count, version < 7 ? 1 : 0);
+
+    // And the upgraded database takes new writes, with change history
+    upgraded.saveCustomers(STORE, [{ ...CUSTOMER, defaultEmailAddress: { emailAddress: 'new@example.com' } }], 'job_upgraded');
+    const [record] = upgraded.getCustomerRecordsById(CUSTOMER.id);
+    assert.equal(record.customer.defaultEmailAddress?.emailAddress, 'new@example.com');
+    assert.ok(upgraded.getCustomerChanges(CUSTOMER.id).some((change) => change.fieldPath === 'defaultEmailAddress.emailAddress'));
+    upgraded.closeDatabase();
+  });
+}
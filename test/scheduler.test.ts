@@ -0,0 +1,122 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { openDatabase, tempPath } from './helpers';
+import { ExportJob } from '../src/types';
+
+const database = openDatabase(tempPath('scheduler.db'));
+database.initializeDatabase();
+const { addSchedule, createScheduler } = require('../src/scheduler') as typeof import('../src/scheduler');
+
+const MINUTE = 60 * 1000;
+
+// The scheduler only learns the time from this, so tests move it by hand
+function fakeClock(start: string) {
+  let current = new Date(start);
+  return {
+    now: () => current,
+    set: (time: string) => {
+      current = new Date(time);
+    },
+  };
+}
+
+test('runs a schedule once it is due and moves it to its next occurrence', async () => {
+  const clock = fakeClock('2025-01-06T08:00:00Z');
+  const queued: ExportJob[] = [];
+  const scheduler = createScheduler({ now: clock.now, misfireGraceMs: 5 * MINUTE, onJobQueued: (job) => queued.push(job) });
+  const schedule = addSchedule({ storeName: 'evisu-us', cron: '0 9 * * *', action: 'full' }, clock.now());
+  assert.equal(schedule.nextRunAt, '2025-01-06T09:00:00.000Z');
+
+  clock.set('2025-01-06T08:59:59Z');
+  assert.deepEqual(await scheduler.tick(), []);
+
+  clock.set('2025-01-06T09:00:30Z');
+  const [run, ...others] = await scheduler.tick();
+  assert.deepEqual(others, []);
+  assert.equal(run.status, 'queued');
+  assert.equal(run.scheduledFor, '2025-01-06T09:00:00.000Z');
+  assert.equal(run.ranAt, '2025-01-06T09:00:30.000Z');
+  assert.deepEqual(queued.map((job) => job.id), [run.jobId]);
+
+  const job = database.getExportJob(run.jobId!)!;
+  assert.equal(job.status, 'pending');
+  assert.equal(job.mode, 'full');
+  assert.equal(database.getSchedule(schedule.id)!.nextRunAt, '2025-01-07T09:00:00.000Z');
+
+  // Nothing is due again until tomorrow
+  assert.deepEqual(await scheduler.tick(), []);
+});
+
+test('records occurrences missed while the scheduler was down, running only a recent one', async () => {
+  const clock = fakeClock('2025-01-06T09:30:00Z');
+  const scheduler = createScheduler({ now: clock.now, misfireGraceMs: 5 * MINUTE });
+  const schedule = addSchedule({ storeName: 'evisu-eu', cron: '0 * * * *', action: 'sync' }, clock.now());
+
+  // Down from 10:00 to 14:10: the 14:00 run is past the grace period too, so nothing runs
+  clock.set('2025-01-06T14:10:00Z');
+  const [missed, ...others] = await scheduler.tick();
+  assert.deepEqual(others, []);
+  assert.equal(missed.status, 'missed');
+  assert.equal(missed.jobId, null);
+  assert.equal(missed.scheduledFor, '2025-01-06T10:00:00.000Z');
+  assert.equal(missed.message, '5 runs missed between 2025-01-06T10:00:00.000Z and 2025-01-06T14:00:00.000Z');
+  assert.equal(database.getActiveExportJob('evisu-eu'), null);
+  assert.equal(database.getSchedule(schedule.id)!.nextRunAt, '2025-01-06T15:00:00.000Z');
+
+  // Back within the grace period of the latest occurrence: the earlier one is missed, the latest runs
+  clock.set('2025-01-06T16:04:00Z');
+  const runs = await scheduler.tick();
+  assert.deepEqual(
+    runs.map((run) => [run.status, run.scheduledFor]),
+    [
+      ['missed', '2025-01-06T15:00:00.000Z'],
+      ['queued', '2025-01-06T16:00:00.000Z'],
+    ]
+  );
+  assert.equal(database.getExportJob(runs[1].jobId!)!.mode, 'sync');
+  assert.deepEqual(database.getScheduleRuns(schedule.id).map((run) => run.status).sort(), ['missed', 'missed', 'queued']);
+});
+
+test('skips a run while the store still has a job from an earlier one', async () => {
+  const clock = fakeClock('2025-01-06T09:58:00Z');
+  const scheduler = createScheduler({ now: clock.now, misfireGraceMs: 5 * MINUTE });
+  const fetch = addSchedule({ storeName: 'evisu-jp', cron: '0 * * * *', action: 'full' }, clock.now());
+  const csv = addSchedule({ storeName: 'evisu-jp', cron: '30 * * * *', action: 'csv' }, clock.now());
+
+  clock.set('2025-01-06T10:00:00Z');
+  const [first] = await scheduler.tick();
+  assert.equal(first.status, 'queued');
+
+  // The 10:00 job is still queued at 10:30 and 11:00, so neither run starts another
+  clock.set('2025-01-06T10:30:00Z');
+  const [csvRun] = await scheduler.tick();
+  assert.equal(csvRun.scheduleId, csv.id);
+  assert.equal(csvRun.status, 'skipped');
+  assert.equal(csvRun.jobId, first.jobId);
+
+  clock.set('2025-01-06T11:00:00Z');
+  const [second] = await scheduler.tick();
+  assert.equal(second.scheduleId, fetch.id);
+  assert.equal(second.status, 'skipped');
+  assert.equal(second.jobId, first.jobId);
+  assert.equal(second.message, `Job ${first.jobId} was pending`);
+  assert.equal(database.getExportJobsByStore('evisu-jp').length, 1);
+
+  // Once the job finished, the next occurrence runs again (the 11:30 CSV run is past its grace period by now)
+  database.updateExportJob(first.jobId!, { status: 'completed', completedAt: '2025-01-06T11:20:00Z' });
+  clock.set('2025-01-06T12:00:00Z');
+  const third = (await scheduler.tick()).find((run) => run.scheduleId === fetch.id)!;
+  assert.equal(third.status, 'queued');
+  assert.notEqual(third.jobId, first.jobId);
+});
+
+test('schedulers sharing the database run each occurrence only once', async () => {
+  const clock = fakeClock('2025-01-06T09:58:00Z');
+  const schedulers = [createScheduler({ now: clock.now }), createScheduler({ now: clock.now })];
+  addSchedule({ storeName: 'evisu-tw', cron: '0 10 * * *', action: 'full' }, clock.now());
+
+  clock.set('2025-01-06T10:00:05Z');
+  const runs = (await Promise.all(schedulers.map((scheduler) => scheduler.tick()))).flat();
+  assert.deepEqual(runs.map((run) => run.status), ['queued']);
+  assert.equal(database.getExportJobsByStore('evisu-tw').length, 1);
+});
@@ -0,0 +1,77 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { CustomerData } from '../src/types';
+
+// Set on import, before the src modules read the store's credentials when they load
+export const SHOP_DOMAIN = 'stub-store.myshopify.com';
+process.env.EVISU_US_SHOP_DOMAIN = SHOP_DOMAIN;
+process.env.EVISU_US_ACCESS_TOKEN = 'shpat_test';
+
+export type ShopifyStub = { url: string; close(): void };
+
+/**
+ * Serves Shopify's side of the Admin API with handle, which gets the request
+ * body in full. The client always calls https://<shop domain>, so its
+ * requests are sent to the stub instead until close().
+ */
+export async function serveShopify(
+  handle: (req: http.IncomingMessage, body: string, res: http.ServerResponse) => void
+): Promise<ShopifyStub> {
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => handle(req, body, res));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = ((input: any, init?: any) => {
+    const target = String(input instanceof Request ? input.url : input);
+    return realFetch(target.replace(`https://${SHOP_DOMAIN}`, url), init);
+  }) as typeof fetch;
+
+  return {
+    url,
+    close: () => {
+      globalThis.fetch = realFetch;
+      server.close();
+    },
+  };
+}
+
+// A full bucket, so paginated fetches never wait between pages
+const COST = { requestedQueryCost: 1, throttleStatus: { maximumAvailable: 1000, currentlyAvailable: 1000, restoreRate: 50 } };
+
+/**
+ * The customers connection: one customer per page, the cursor being its
+ * position, and `updated_at:>='...'` searches as syncs send them. Fails the
+ * page after `failAfter` once, if set.
+ */
+export function customersConnection() {
+  const connection = {
+    customers: [] as CustomerData[],
+    failAfter: null as number | null,
+    handle: (_req: http.IncomingMessage, body: string, res: http.ServerResponse) => {
+      const { variables } = JSON.parse(body);
+      const position = variables.after ? parseInt(variables.after) : 0;
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+
+      if (connection.failAfter === position) {
+        connection.failAfter = null;
+        res.end(JSON.stringify({ errors: [{ message: 'Internal error' }] }));
+        return;
+      }
+
+      const since = /updated_at:>='(.+)'/.exec(variables.query || '')?.[1];
+      const matching = connection.customers.filter((customer) => !since || customer.updatedAt >= since);
+      const node = matching[position];
+      const customers = {
+        edges: node ? [{ node, cursor: String(position + 1) }] : [],
+        pageInfo: { hasNextPage: position + 1 < matching.length, endCursor: node ? String(position + 1) : null },
+      };
+      res.end(JSON.stringify({ data: { customers }, extensions: { cost: COST } }));
+    },
+  };
+  return connection;
+}
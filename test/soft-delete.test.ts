@@ -0,0 +1,61 @@
+import { after, before, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { makeCustomer, openDatabase, tempPath } from './helpers';
+import { ShopifyStub, customersConnection, serveShopify } from './shopify-stub';
+
+const database = openDatabase(tempPath('soft-delete.db'));
+database.initializeDatabase();
+const { fetchAndSaveCustomers, syncCustomers } = require('../src/export-service') as typeof import('../src/export-service');
+const { runJobInForeground } = require('../src/worker') as typeof import('../src/worker');
+
+const STORE = 'evisu-us';
+const stub = customersConnection();
+let shopify: ShopifyStub;
+
+before(async () => {
+  shopify = await serveShopify(stub.handle);
+});
+
+after(() => {
+  shopify.close();
+  database.closeDatabase();
+});
+
+function isDeleted(index: number): boolean {
+  const [record] = database.getCustomerRecordsById(makeCustomer(index).id);
+  return record.customer.deletedAt !== undefined;
+}
+
+test('a full fetch marks customers it no longer sees as deleted', async () => {
+  stub.customers = [1, 2, 3, 4].map((index) => makeCustomer(index));
+  await fetchAndSaveCustomers(STORE);
+
+  stub.customers = [1, 2, 3].map((index) => makeCustomer(index));
+  const result = await fetchAndSaveCustomers(STORE);
+
+  assert.equal(database.getExportJob(result.jobId)!.deletedCustomers, 1);
+  assert.deepEqual([1, 2, 3, 4].map(isDeleted), [false, false, false, true]);
+});
+
+test('a sync between a failed full fetch and its resume keeps the customers the fetch saw', async () => {
+  stub.customers = [1, 2, 3].map((index) => makeCustomer(index));
+
+  // Fails after saving customer 1
+  stub.failAfter = 1;
+  await assert.rejects(fetchAndSaveCustomers(STORE));
+  const [failed] = database.getExportJobsByStore(STORE, 1);
+  assert.equal(failed.status, 'failed');
+  assert.equal(failed.lastCursor, '1');
+
+  // Customer 1 changes in Shopify and a sync saves it before the full fetch resumes
+  stub.customers[0] = makeCustomer(1, { note: 'Changed', updatedAt: '2025-01-01T00:00:00Z' });
+  await syncCustomers(STORE);
+  assert.equal(database.getCustomerRecordsById(makeCustomer(1).id)[0].customer.note, 'Changed');
+
+  const requeued = database.requeueExportJob(failed.id, failed.jobOptions)!;
+  const result = await runJobInForeground(requeued);
+
+  assert.equal(result?.status, 'completed');
+  assert.equal(database.getExportJob(failed.id)!.deletedCustomers, 0);
+  assert.deepEqual([1, 2, 3].map(isDeleted), [false, false, false]);
+});
@@ -0,0 +1,171 @@
+import { after, before, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { openDatabase, tempPath } from './helpers';
+
+process.env.WEBHOOK_MAX_ATTEMPTS = '3';
+
+const database = openDatabase(tempPath('webhooks.db'));
+database.initializeDatabase();
+const { addWebhook, createWebhookDispatcher, queueWebhooksForJobEvents } =
+  require('../src/webhooks') as typeof import('../src/webhooks');
+const { publishJobEvent } = require('../src/job-events') as typeof import('../src/job-events');
+
+type ReceivedRequest = { path: string; headers: http.IncomingHttpHeaders; body: string };
+
+// Records what it receives and answers with the statuses queued for the path, then 200
+const receiver = {
+  server: http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      receiver.requests.push({ path: req.url!, headers: req.headers, body });
+      res.writeHead(receiver.statuses.get(req.url!)?.shift() ?? 200);
+      res.end();
+    });
+  }),
+  url: '',
+  requests: [] as ReceivedRequest[],
+  statuses: new Map<string, number[]>(),
+};
+
+let stopQueueing: () => void;
+
+before(async () => {
+  await new Promise<void>((resolve) => receiver.server.listen(0, '127.0.0.1', resolve));
+  receiver.url = `http://127.0.0.1:${(receiver.server.address() as AddressInfo).port}`;
+  stopQueueing = queueWebhooksForJobEvents();
+});
+
+after(() => {
+  stopQueueing();
+  receiver.server.close();
+  database.closeDatabase();
+});
+
+// Deliveries are queued with the real time, so the fake clock starts just after it
+function fakeClock() {
+  let current = Date.now() + 1000;
+  return {
+    now: () => new Date(current),
+    advance: (ms: number) => {
+      current += ms;
+    },
+  };
+}
+
+function completeJob(storeName: string): string {
+  const job = database.createExportJob(storeName);
+  database.updateExportJob(job.id, { status: 'completed', totalCustomers: 42, completedAt: new Date().toISOString() });
+  publishJobEvent(job.id, { type: 'status', status: 'completed' });
+  return job.id;
+}
+
+test('sends a signed payload the receiver can verify with the shared secret', async () => {
+  const clock = fakeClock();
+  const webhook = addWebhook({ storeName: 'evisu-us', url: `${receiver.url}/hooks`, secret: 'shared-secret', events: ['job.completed'] });
+  receiver.requests = [];
+
+  const jobId = completeJob('evisu-us');
+  await createWebhookDispatcher({ now: clock.now }).tick();
+
+  assert.equal(receiver.requests.length, 1);
+  const [{ headers, body }] = receiver.requests;
+  const timestamp = String(Math.floor(clock.now().getTime() / 1000));
+  const expected = crypto.createHmac('sha256', 'shared-secret').update(`${timestamp}.${body}`).digest('hex');
+  assert.equal(headers['x-webhook-timestamp'], timestamp);
+  assert.equal(headers['x-webhook-signature'], `sha256=${expected}`);
+  assert.equal(headers['x-webhook-event'], 'job.completed');
+  assert.equal(headers['content-type'], 'application/json');
+
+  const payload = JSON.parse(body);
+  assert.equal(payload.event, 'job.completed');
+  assert.equal(payload.job.id, jobId);
+  assert.equal(payload.job.status, 'completed');
+  assert.equal(payload.job.totalCustomers, 42);
+
+  const [delivery] = database.getWebhookDeliveries(webhook.id);
+  assert.equal(headers['x-webhook-delivery'], String(delivery.id));
+  assert.equal(delivery.status, 'delivered');
+  assert.equal(delivery.responseStatus, 200);
+});
+
+test('retries failed deliveries with backoff and gives up after the last attempt', async () => {
+  const clock = fakeClock();
+  const dispatcher = createWebhookDispatcher({ now: clock.now });
+  const flaky = addWebhook({ storeName: 'evisu-eu', url: `${receiver.url}/flaky`, events: ['job.completed'] });
+  const down = addWebhook({ storeName: 'evisu-eu', url: `${receiver.url}/down`, events: ['job.completed'] });
+  receiver.requests = [];
+  receiver.statuses.set('/flaky', [503]);
+  receiver.statuses.set('/down', [500, 500, 500]);
+
+  completeJob('evisu-eu');
+  await dispatcher.tick();
+  assert.equal(receiver.requests.length, 2);
+
+  // The first retry waits 30 seconds
+  clock.advance(29 * 1000);
+  assert.deepEqual(await dispatcher.tick(), []);
+  clock.advance(1000);
+  await dispatcher.tick();
+  assert.equal(receiver.requests.length, 4);
+
+  const [recovered] = database.getWebhookDeliveries(flaky.id);
+  assert.equal(recovered.status, 'delivered');
+  assert.equal(recovered.attempts, 2);
+
+  // The second waits a minute, and the third attempt is the last
+  clock.advance(59 * 1000);
+  assert.deepEqual(await dispatcher.tick(), []);
+  clock.advance(1000);
+  await dispatcher.tick();
+  clock.advance(24 * 60 * 60 * 1000);
+  assert.deepEqual(await dispatcher.tick(), []);
+
+  const [failed] = database.getWebhookDeliveries(down.id);
+  assert.equal(failed.status, 'failed');
+  assert.equal(failed.attempts, 3);
+  assert.equal(failed.responseStatus, 500);
+  assert.equal(failed.error, 'HTTP 500');
+  assert.equal(failed.nextAttemptAt, null);
+  assert.equal(receiver.requests.filter((request) => request.path === '/down').length, 3);
+});
+
+test('deliveries wait in the outbox until a dispatcher can send them, and are sent once', async () => {
+  const clock = fakeClock();
+  // Nothing listens on this port once the server is closed
+  const closed = http.createServer();
+  await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve));
+  const closedUrl = `http://127.0.0.1:${(closed.address() as AddressInfo).port}/hooks`;
+  await new Promise((resolve) => closed.close(resolve));
+
+  const webhook = addWebhook({ storeName: 'evisu-jp', url: closedUrl, events: ['job.completed'] });
+  completeJob('evisu-jp');
+
+  // Stored as soon as the job completes, before any dispatcher runs
+  const [queued] = database.getWebhookDeliveries(webhook.id);
+  assert.equal(queued.status, 'pending');
+  assert.equal(queued.attempts, 0);
+
+  await createWebhookDispatcher({ now: clock.now }).tick();
+  const [unreachable] = database.getWebhookDeliveries(webhook.id);
+  assert.equal(unreachable.status, 'pending');
+  assert.equal(unreachable.attempts, 1);
+  assert.equal(unreachable.responseStatus, null);
+  assert.ok(unreachable.error);
+
+  // The receiver is back; two dispatchers sharing the database, e.g. after a restart, send it once
+  database.updateWebhook(webhook.id, { url: `${receiver.url}/outbox` });
+  receiver.requests = [];
+  clock.advance(30 * 1000);
+  const dispatchers = [createWebhookDispatcher({ now: clock.now }), createWebhookDispatcher({ now: clock.now })];
+  const sent = (await Promise.all(dispatchers.map((dispatcher) => dispatcher.tick()))).flat();
+
+  assert.equal(sent.length, 1);
+  assert.equal(receiver.requests.length, 1);
+  const [delivered] = database.getWebhookDeliveries(webhook.id);
+  assert.equal(delivered.status, 'delivered');
+  assert.equal(delivered.attempts, 2);
+});
@@ -0,0 +1,92 @@
+import { after, before, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import { makeCustomer, openDatabase, tempPath } from './helpers';
+import { ShopifyStub, customersConnection, serveShopify } from './shopify-stub';
+
+process.env.EXPORTS_DIR = tempPath('exports');
+
+const database = openDatabase(tempPath('worker.db'));
+database.initializeDatabase();
+const { runJobInForeground } = require('../src/worker') as typeof import('../src/worker');
+const { enqueueFetchJob } = require('../src/job-queue') as typeof import('../src/job-queue');
+const { addWebhook, queueWebhooksForJobEvents } = require('../src/webhooks') as typeof import('../src/webhooks');
+const { subscribeToAllJobs } = require('../src/job-events') as typeof import('../src/job-events');
+
+const STORE = 'evisu-us';
+const stub = customersConnection();
+stub.customers = [1, 2, 3].map((index) => makeCustomer(index));
+let shopify: ShopifyStub;
+
+const events: string[] = [];
+const stopRecording = subscribeToAllJobs((event) => {
+  if (event.type === 'status' || event.type === 'file') {
+    events.push(`${event.jobId} ${event.type} ${event.status}`);
+  }
+});
+const stopQueueing = queueWebhooksForJobEvents();
+// Nothing dispatches here; the test only looks at which deliveries were queued
+const webhook = addWebhook({ storeName: STORE, url: 'http://127.0.0.1:9/hooks', events: ['job.completed', 'job.failed', 'file.created'] });
+
+before(async () => {
+  shopify = await serveShopify(stub.handle);
+});
+
+after(() => {
+  stopRecording();
+  stopQueueing();
+  shopify.close();
+  database.closeDatabase();
+});
+
+function eventsOf(jobId: string): string[] {
+  return events.filter((event) => event.startsWith(`${jobId} `)).map((event) => event.slice(jobId.length + 1));
+}
+
+function deliveriesOf(jobId: string) {
+  return database.getWebhookDeliveries(webhook.id).filter((delivery) => delivery.jobId === jobId).reverse();
+}
+
+test('a job queued with its CSV completes once the file is written', async () => {
+  const { job } = enqueueFetchJob(STORE, { exportCsv: true });
+  const result = await runJobInForeground(job);
+  assert.equal(result?.status, 'completed');
+
+  assert.deepEqual(eventsOf(job.id), [
+    'status in_progress',
+    'file started',
+    'file completed',
+    'status completed',
+  ]);
+
+  const completed = database.getExportJob(job.id)!;
+  assert.equal(completed.status, 'completed');
+  assert.ok(fs.existsSync(completed.csvFilePath!));
+
+  const deliveries = deliveriesOf(job.id);
+  assert.deepEqual(deliveries.map((delivery) => delivery.event), ['file.created', 'job.completed']);
+  const payload = deliveries[1].payload as { job: { status: string; downloadUrl: string | null } };
+  assert.equal(payload.job.status, 'completed');
+  assert.equal(payload.job.downloadUrl, `/api/download-csv/job/${job.id}`);
+});
+
+test('a job whose queued CSV export fails only reports the failure', async () => {
+  const { job } = enqueueFetchJob(STORE, { exportCsv: true, profile: 'no-such-profile' });
+  await assert.rejects(runJobInForeground(job));
+
+  // The profile is resolved before the file is started
+  assert.deepEqual(eventsOf(job.id), ['status in_progress', 'status failed']);
+
+  const failed = database.getExportJob(job.id)!;
+  assert.equal(failed.status, 'failed');
+  assert.match(failed.error!, /^CSV export failed: /);
+  assert.deepEqual(deliveriesOf(job.id).map((delivery) => delivery.event), ['job.failed']);
+});
+
+test('jobs created in the same millisecond get their own ids', (t) => {
+  t.mock.method(Date, 'now', () => 1700000000000);
+  const first = database.createExportJob('evisu-eu', { mode: 'file' });
+  const second = database.createExportJob('evisu-eu', { mode: 'file' });
+  assert.notEqual(first.id, second.id);
+  assert.ok(database.getExportJob(second.id));
+});